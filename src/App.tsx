@@ -4,12 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { RequireRole } from "@/components/RequireRole";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import ResetPassword from "./pages/ResetPassword";
 import StudentDashboard from "./pages/StudentDashboard";
 import StaffDashboard from "./pages/StaffDashboard";
 import AdminDashboard from "./pages/AdminDashboard";
 import ComplaintDetail from "./pages/ComplaintDetail";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -22,12 +25,22 @@ const App = () => (
       <BrowserRouter>
         <AuthProvider>
           <Routes>
-            <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
-            <Route path="/student" element={<StudentDashboard />} />
-            <Route path="/staff" element={<StaffDashboard />} />
-            <Route path="/admin" element={<AdminDashboard />} />
-            <Route path="/complaint/:id" element={<ComplaintDetail />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route element={<RequireRole />}>
+              <Route path="/" element={<Index />} />
+              <Route path="/complaint/:id" element={<ComplaintDetail />} />
+              <Route path="/settings" element={<Settings />} />
+            </Route>
+            <Route element={<RequireRole roles={["student"]} />}>
+              <Route path="/student" element={<StudentDashboard />} />
+            </Route>
+            <Route element={<RequireRole roles={["staff"]} />}>
+              <Route path="/staff" element={<StaffDashboard />} />
+            </Route>
+            <Route element={<RequireRole roles={["admin"]} />}>
+              <Route path="/admin" element={<AdminDashboard />} />
+            </Route>
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AuthProvider>
@@ -0,0 +1,318 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { ComplaintStatus, STATUSES, statusConfig } from "@/lib/complaints";
+import { ExportFormat, downloadExport } from "@/lib/export";
+import { format, parseISO, subDays } from "date-fns";
+import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, LineChart, Line } from "recharts";
+
+type Bucket = "day" | "week" | "month";
+
+type VolumePoint = {
+  bucket: string;
+  submitted: number;
+  resolved: number;
+};
+
+type CycleTimePoint = {
+  bucket: string;
+  median_hours_to_assign: number | null;
+  median_hours_to_resolve: number | null;
+};
+
+type CategoryRow = {
+  category: string;
+  total: number;
+  sla_met: number;
+  sla_breached: number;
+};
+
+type Summary = {
+  total: number;
+  median_hours_to_assign: number | null;
+  median_hours_to_resolve: number | null;
+};
+
+const RANGES = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 12 months" },
+];
+
+const BUCKET_LABELS: Record<Bucket, string> = {
+  day: "By day",
+  week: "By week",
+  month: "By month",
+};
+
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '6px'
+};
+
+const axisTick = { fill: 'hsl(var(--muted-foreground))', fontSize: 11 };
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "–";
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} hrs`;
+};
+
+export const AnalyticsOverview = () => {
+  const { toast } = useToast();
+  const [range, setRange] = useState("30");
+  const [bucket, setBucket] = useState<Bucket>("day");
+  const [volume, setVolume] = useState<VolumePoint[]>([]);
+  const [cycleTimes, setCycleTimes] = useState<CycleTimePoint[]>([]);
+  const [statusCounts, setStatusCounts] = useState<{ status: ComplaintStatus; total: number }[]>([]);
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [summary, setSummary] = useState<Summary | null>(null);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [range, bucket]);
+
+  useRealtime("admin-analytics", [
+    { table: "complaints", onChange: () => fetchAnalytics() },
+  ]);
+
+  const dateRange = () => ({
+    _from: format(subDays(new Date(), Number(range) - 1), "yyyy-MM-dd"),
+    _to: format(new Date(), "yyyy-MM-dd"),
+  });
+
+  const fetchAnalytics = async () => {
+    const { _from, _to } = dateRange();
+
+    try {
+      const [volumeResult, cycleResult, statusResult, categoryResult, summaryResult] = await Promise.all([
+        supabase.rpc("complaint_volume", { _from, _to, _bucket: bucket }),
+        supabase.rpc("complaint_cycle_times", { _from, _to, _bucket: bucket }),
+        supabase.rpc("complaint_status_distribution", { _from, _to }),
+        supabase.rpc("complaint_category_breakdown", { _from, _to }),
+        supabase.rpc("complaint_analytics_summary", { _from, _to }),
+      ]);
+
+      for (const result of [volumeResult, cycleResult, statusResult, categoryResult, summaryResult]) {
+        if (result.error) throw result.error;
+      }
+
+      setVolume(volumeResult.data || []);
+      setCycleTimes(cycleResult.data || []);
+      setStatusCounts(statusResult.data || []);
+      setCategories(categoryResult.data || []);
+      setSummary(summaryResult.data?.[0] ?? null);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The tables behind the charts, for the same range as shown
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const { _from, _to } = dateRange();
+
+    await downloadExport(`analytics-${_from}-to-${_to}`, exportFormat, [
+      {
+        name: "Categories",
+        rows: categories.map(row => ({
+          "Category": row.category,
+          "Total": row.total,
+          "Met SLA": row.sla_met,
+          "Breached SLA": row.sla_breached,
+        })),
+      },
+      {
+        name: "Statuses",
+        rows: STATUSES.map(status => ({
+          "Status": statusConfig[status].label,
+          "Total": statusCounts.find(s => s.status === status)?.total ?? 0,
+        })),
+      },
+    ]);
+  };
+
+  const bucketLabel = (value: string) =>
+    format(parseISO(value), bucket === "month" ? "MMM yyyy" : "MMM d");
+
+  const volumeChartData = volume.map(point => ({ ...point, date: bucketLabel(point.bucket) }));
+  const cycleChartData = cycleTimes.map(point => ({ ...point, date: bucketLabel(point.bucket) }));
+
+  // Statuses nobody is in are left out to keep the legend readable
+  const statusChartData = STATUSES.map(status => ({
+    name: statusConfig[status].label,
+    value: statusCounts.find(s => s.status === status)?.total ?? 0,
+    color: statusConfig[status].color,
+  })).filter(item => item.value > 0);
+
+  const total = summary?.total ?? 0;
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold text-foreground">Analytics Overview</h3>
+        <div className="flex gap-2">
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={bucket} onValueChange={(value) => setBucket(value as Bucket)}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BUCKET_LABELS) as Bucket[]).map((value) => (
+                <SelectItem key={value} value={value}>{BUCKET_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ExportMenu onExport={handleExport} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Volume Over Time */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Complaint Volume</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={180}>
+              <BarChart data={volumeChartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" tick={axisTick} stroke="hsl(var(--border))" />
+                <YAxis allowDecimals={false} tick={axisTick} stroke="hsl(var(--border))" />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Bar dataKey="submitted" name="Submitted" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="resolved" name="Resolved" fill="hsl(var(--resolved))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Status Breakdown */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Status Breakdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={180}>
+              <PieChart>
+                <Pie
+                  data={statusChartData}
+                  cx="50%"
+                  cy="50%"
+                  innerRadius={40}
+                  outerRadius={70}
+                  paddingAngle={2}
+                  dataKey="value"
+                >
+                  {statusChartData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  ))}
+                </Pie>
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend wrapperStyle={{ fontSize: '12px' }} iconType="circle" />
+              </PieChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Category Breakdown */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Categories</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {categories.slice(0, 5).map((category) => (
+                <div key={category.category} className="flex items-center justify-between">
+                  <span className="text-sm text-foreground capitalize">{category.category}</span>
+                  <div className="flex items-center gap-2">
+                    <div className="w-24 h-2 bg-muted rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-primary rounded-full"
+                        style={{ width: `${total > 0 ? (category.total / total) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <span className="text-sm font-medium text-foreground w-8 text-right">
+                      {category.total}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {categories.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">No data yet</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+        {/* SLA Compliance */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">SLA Compliance by Category</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={categories}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="category" tick={axisTick} stroke="hsl(var(--border))" />
+                <YAxis allowDecimals={false} tick={axisTick} stroke="hsl(var(--border))" />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend wrapperStyle={{ fontSize: '12px' }} iconType="circle" />
+                <Bar dataKey="sla_met" name="Met SLA" stackId="sla" fill="hsl(var(--resolved))" />
+                <Bar dataKey="sla_breached" name="Breached" stackId="sla" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        {/* Cycle Times */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Median Cycle Times</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-8 mb-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Time to assign</p>
+                <p className="text-2xl font-bold">{formatHours(summary?.median_hours_to_assign ?? null)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Time to resolve</p>
+                <p className="text-2xl font-bold">{formatHours(summary?.median_hours_to_resolve ?? null)}</p>
+              </div>
+            </div>
+            <ResponsiveContainer width="100%" height={140}>
+              <LineChart data={cycleChartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" tick={axisTick} stroke="hsl(var(--border))" />
+                <YAxis tick={axisTick} stroke="hsl(var(--border))" unit="h" />
+                <Tooltip contentStyle={tooltipStyle} />
+                <Line type="monotone" dataKey="median_hours_to_assign" name="To assign (hrs)" stroke="hsl(var(--primary))" connectNulls dot={false} />
+                <Line type="monotone" dataKey="median_hours_to_resolve" name="To resolve (hrs)" stroke="hsl(var(--resolved))" connectNulls dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
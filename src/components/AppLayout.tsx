@@ -0,0 +1,68 @@
+import { ReactNode } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { Navbar } from "@/components/Navbar";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+} from "@/components/ui/sidebar";
+import { NAV_ITEMS } from "@/lib/navigation";
+import { FileText } from "lucide-react";
+
+export const AppLayout = ({ children }: { children: ReactNode }) => {
+  const { userRole, can } = useAuth();
+  const location = useLocation();
+  const items = userRole ? NAV_ITEMS[userRole].filter(item => !item.permission || can(item.permission)) : [];
+
+  // Links differ only by query string, so compare the full URL rather than the path
+  const isActive = (url: string) => {
+    const [pathname, search = ""] = url.split("?");
+    return location.pathname === pathname &&
+      new URLSearchParams(location.search).get("tab") === new URLSearchParams(search).get("tab");
+  };
+
+  return (
+    <SidebarProvider>
+      <Sidebar collapsible="icon">
+        <SidebarHeader>
+          <div className="flex items-center gap-2 px-2 py-1.5">
+            <FileText className="h-5 w-5 shrink-0 text-primary" />
+            <span className="font-bold text-foreground group-data-[collapsible=icon]:hidden">BCMS</span>
+          </div>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Navigation</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {items.map((item) => (
+                  <SidebarMenuItem key={item.url}>
+                    <SidebarMenuButton asChild isActive={isActive(item.url)} tooltip={item.title}>
+                      <Link to={item.url}>
+                        <item.icon />
+                        <span>{item.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+      <SidebarInset className="bg-background">
+        <Navbar />
+        {children}
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
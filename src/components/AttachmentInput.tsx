@@ -0,0 +1,95 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Paperclip, X } from "lucide-react";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_SIZE,
+  formatFileSize,
+  validateAttachment,
+} from "@/lib/attachments";
+
+interface AttachmentInputProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export const AttachmentInput = ({ files, onChange, disabled }: AttachmentInputProps) => {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = "";
+
+    const errors = selected.map(validateAttachment).filter(Boolean);
+    if (errors.length > 0) {
+      toast({
+        title: "Some files were not added",
+        description: errors.join(". "),
+        variant: "destructive",
+      });
+    }
+
+    const valid = selected.filter(file => !validateAttachment(file));
+    const next = [...files, ...valid];
+    if (next.length > MAX_ATTACHMENTS) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files`,
+        variant: "destructive",
+      });
+    }
+    onChange(next.slice(0, MAX_ATTACHMENTS));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+        onChange={handleSelect}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= MAX_ATTACHMENTS}
+      >
+        <Paperclip className="mr-2 h-4 w-4" />
+        Attach files
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Images, PDF, text or Word documents up to {formatFileSize(MAX_ATTACHMENT_SIZE)} each
+      </p>
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm border border-border rounded-md px-3 py-1">
+              <span className="truncate">{file.name}</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => onChange(files.filter((_, i) => i !== index))}
+                  disabled={disabled}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
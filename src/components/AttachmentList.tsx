@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Download, FileText } from "lucide-react";
+import { ATTACHMENTS_BUCKET, Attachment, formatFileSize, isImageAttachment } from "@/lib/attachments";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+}
+
+export const AttachmentList = ({ attachments }: AttachmentListProps) => {
+  const { toast } = useToast();
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+
+  // Keyed on the joined paths so re-filtered arrays from the parent don't refetch
+  const imagePathsKey = attachments
+    .filter(a => isImageAttachment(a.mime_type))
+    .map(a => a.storage_path)
+    .join("|");
+
+  useEffect(() => {
+    if (!imagePathsKey) return;
+    const imagePaths = imagePathsKey.split("|");
+
+    supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(imagePaths, 3600)
+      .then(({ data }) => {
+        setPreviewUrls(
+          Object.fromEntries((data || []).filter(d => d.path && !d.error).map(d => [d.path, d.signedUrl]))
+        );
+      });
+  }, [imagePathsKey]);
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrl(attachment.storage_path, 60, { download: attachment.file_name });
+
+      if (error) throw error;
+      window.location.assign(data.signedUrl);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(a => previewUrls[a.storage_path]);
+
+  return (
+    <div className="space-y-2 mt-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <a
+              key={attachment.id}
+              href={previewUrls[attachment.storage_path]}
+              target="_blank"
+              rel="noreferrer"
+            >
+              <img
+                src={previewUrls[attachment.storage_path]}
+                alt={attachment.file_name}
+                className="h-24 w-24 object-cover rounded-md border border-border"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      <ul className="space-y-1">
+        {attachments.map((attachment) => (
+          <li key={attachment.id} className="flex items-center justify-between text-sm border border-border rounded-md px-3 py-1">
+            <div className="flex items-center gap-2 min-w-0">
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="truncate">{attachment.file_name}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)}>
+              <Download className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
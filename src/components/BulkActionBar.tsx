@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { ComplaintStatus, PRIORITIES, REASON_STATUSES, STATUSES, priorityLabels, statusConfig } from "@/lib/complaints";
+import { Undo2, X } from "lucide-react";
+
+type BulkAction = "assign" | "status" | "priority" | "tag";
+
+type BulkFailure = {
+  complaint_id: string;
+  error: string | null;
+};
+
+type BulkSummary = {
+  title: string;
+  succeeded: number;
+  failures: BulkFailure[];
+};
+
+interface BulkActionBarProps {
+  selected: { id: string; title: string }[];
+  staffMembers: { id: string; full_name: string }[];
+  onClear: () => void;
+  onComplete: () => void;
+}
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  assign: "Assign / reassign",
+  status: "Change status",
+  priority: "Set priority",
+  tag: "Add tag",
+};
+
+export const BulkActionBar = ({ selected, staffMembers, onClear, onComplete }: BulkActionBarProps) => {
+  const { toast } = useToast();
+  const [action, setAction] = useState<BulkAction>("assign");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [applying, setApplying] = useState(false);
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+  const [lastOperationId, setLastOperationId] = useState<string | null>(null);
+
+  // Failures only carry an id, and the complaint may have left the current page since
+  const [titles, setTitles] = useState<Map<string, string>>(new Map());
+
+  const needsReason = action === "status" && REASON_STATUSES.includes(value as ComplaintStatus);
+
+  const handleApply = async () => {
+    setApplying(true);
+
+    try {
+      const { data: operationId, error } = await supabase.rpc("bulk_update_complaints", {
+        _complaint_ids: selected.map(c => c.id),
+        _action: action,
+        _value: value,
+        _reason: needsReason ? reason.trim() || undefined : undefined,
+      });
+
+      if (error) throw error;
+
+      // Complaints deleted since they were selected get no item, so count outcomes from the items
+      const { data: items, error: itemsError } = await supabase
+        .from("bulk_operation_items")
+        .select("complaint_id, succeeded, error")
+        .eq("operation_id", operationId);
+
+      if (itemsError) throw itemsError;
+
+      const failures = (items || [])
+        .filter(item => !item.succeeded)
+        .map(({ complaint_id, error }) => ({ complaint_id, error }));
+
+      setTitles(new Map(selected.map(c => [c.id, c.title])));
+      setLastOperationId(operationId);
+      setSummary({
+        title: ACTION_LABELS[action],
+        succeeded: (items || []).filter(item => item.succeeded).length,
+        failures,
+      });
+      setValue("");
+      setReason("");
+      onClear();
+      onComplete();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastOperationId) return;
+
+    try {
+      const { data: skipped, error } = await supabase.rpc("undo_bulk_operation", {
+        _operation_id: lastOperationId,
+      });
+
+      if (error) throw error;
+
+      const { count, error: countError } = await supabase
+        .from("bulk_operation_items")
+        .select("id", { count: "exact", head: true })
+        .eq("operation_id", lastOperationId)
+        .eq("succeeded", true);
+
+      if (countError) throw countError;
+
+      setLastOperationId(null);
+      setSummary({
+        title: "Undo",
+        succeeded: (count ?? 0) - (skipped?.length ?? 0),
+        failures: skipped || [],
+      });
+      onComplete();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (selected.length === 0 && !lastOperationId && !summary) return null;
+
+  return (
+    <>
+      {selected.length > 0 ? (
+        <Card className="mb-4 border-primary">
+          <CardContent className="flex flex-wrap items-center gap-3 py-4">
+            <span className="text-sm font-medium text-foreground">
+              {selected.length} selected
+            </span>
+            <Select
+              value={action}
+              onValueChange={(next) => {
+                setAction(next as BulkAction);
+                setValue("");
+                setReason("");
+              }}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTION_LABELS) as BulkAction[]).map((key) => (
+                  <SelectItem key={key} value={key}>{ACTION_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {action === "tag" ? (
+              <Input
+                placeholder="Tag name"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="w-[180px]"
+              />
+            ) : (
+              <Select value={value} onValueChange={setValue}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder={action === "assign" ? "Choose staff..." : "Choose..."} />
+                </SelectTrigger>
+                <SelectContent className="bg-popover z-50">
+                  {action === "assign" && staffMembers.map((staff) => (
+                    <SelectItem key={staff.id} value={staff.id}>{staff.full_name}</SelectItem>
+                  ))}
+                  {action === "status" && STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{statusConfig[status].label}</SelectItem>
+                  ))}
+                  {action === "priority" && PRIORITIES.map((priority) => (
+                    <SelectItem key={priority} value={priority}>{priorityLabels[priority]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button
+              onClick={handleApply}
+              disabled={applying || !value.trim() || (value === "rejected" && !reason.trim())}
+            >
+              {applying ? "Applying..." : "Apply"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+
+            {needsReason && (
+              <Textarea
+                placeholder={value === "rejected" ? "Reason (required)" : "Reason (optional)"}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className="basis-full"
+              />
+            )}
+          </CardContent>
+        </Card>
+      ) : lastOperationId && (
+        <div className="mb-4 flex justify-end">
+          <Button variant="outline" size="sm" onClick={handleUndo}>
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo last bulk action
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!summary} onOpenChange={(open) => !open && setSummary(null)}>
+        {summary && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{summary.title}</DialogTitle>
+              <DialogDescription>
+                {summary.succeeded} complaint{summary.succeeded !== 1 ? "s" : ""} updated
+                {summary.failures.length > 0 && `, ${summary.failures.length} skipped`}
+              </DialogDescription>
+            </DialogHeader>
+            {summary.failures.length > 0 && (
+              <div className="max-h-64 space-y-2 overflow-y-auto">
+                {summary.failures.map((failure) => (
+                  <div key={failure.complaint_id} className="rounded-md border border-border p-3">
+                    <p className="text-sm font-medium text-foreground">
+                      {titles.get(failure.complaint_id) || "Complaint"}
+                    </p>
+                    <p className="text-sm text-destructive">{failure.error}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+            <DialogFooter>
+              {lastOperationId && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSummary(null);
+                    handleUndo();
+                  }}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo
+                </Button>
+              )}
+              <Button onClick={() => setSummary(null)}>Done</Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </>
+  );
+};
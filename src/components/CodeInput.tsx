@@ -0,0 +1,20 @@
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+export const CODE_LENGTH = 6;
+
+interface CodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Six-digit one-time code, as sent by email or shown in an authenticator app
+export const CodeInput = ({ value, onChange, disabled }: CodeInputProps) => (
+  <InputOTP maxLength={CODE_LENGTH} value={value} onChange={onChange} disabled={disabled} autoFocus>
+    <InputOTPGroup>
+      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
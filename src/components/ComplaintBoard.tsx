@@ -0,0 +1,246 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { SlaBadge, SlaFields } from "@/components/SlaBadge";
+import { useToast } from "@/hooks/use-toast";
+import { ComplaintPriority, ComplaintStatus, PRIORITIES, REASON_STATUSES, STATUSES, priorityLabels, statusConfig } from "@/lib/complaints";
+import { cn } from "@/lib/utils";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare } from "lucide-react";
+
+export type BoardComplaint = SlaFields & {
+  id: string;
+  title: string;
+  status: ComplaintStatus;
+  priority: ComplaintPriority;
+  created_at: string;
+  unread_comments: number;
+  student_profile: {
+    full_name: string;
+  } | null;
+};
+
+type StatusTransition = {
+  from_status: ComplaintStatus;
+  to_status: ComplaintStatus;
+};
+
+interface ComplaintBoardProps {
+  complaints: BoardComplaint[];
+  onStatusChanged: () => void;
+}
+
+// Withdrawing is the student's call, so staff never need that column
+const BOARD_STATUSES = STATUSES.filter(status => status !== "withdrawn");
+
+export const ComplaintBoard = ({ complaints, onStatusChanged }: ComplaintBoardProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [columnFilters, setColumnFilters] = useState<Partial<Record<ComplaintStatus, string>>>({});
+  const [dragging, setDragging] = useState<BoardComplaint | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ complaint: BoardComplaint; status: ComplaintStatus } | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    fetchTransitions();
+  }, []);
+
+  const fetchTransitions = async () => {
+    const { data, error } = await supabase
+      .from("complaint_status_transitions")
+      .select("from_status, to_status")
+      .eq("allowed_role", "staff");
+
+    if (error) {
+      console.error("Error fetching status transitions:", error);
+      return;
+    }
+    setTransitions(data || []);
+  };
+
+  // The database enforces the same rules; this only decides where a card may be dropped
+  const canMove = (complaint: BoardComplaint, status: ComplaintStatus) =>
+    transitions.some(t => t.from_status === complaint.status && t.to_status === status);
+
+  const moveComplaint = async (complaint: BoardComplaint, status: ComplaintStatus, statusReason?: string) => {
+    try {
+      const { error } = await supabase.rpc("set_complaint_status", {
+        _complaint_id: complaint.id,
+        _status: status,
+        _reason: statusReason?.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Moved to ${statusConfig[status].label}`,
+      });
+
+      setPendingMove(null);
+      setReason("");
+      onStatusChanged();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDrop = (status: ComplaintStatus) => {
+    const complaint = dragging;
+    setDragging(null);
+    if (!complaint || !canMove(complaint, status)) return;
+
+    if (REASON_STATUSES.includes(status)) {
+      setPendingMove({ complaint, status });
+    } else {
+      moveComplaint(complaint, status);
+    }
+  };
+
+  const matchesFilter = (complaint: BoardComplaint, filter = "all") => {
+    if (filter === "all") return true;
+    if (filter === "overdue") return complaint.first_response_breached || complaint.resolution_breached;
+    return complaint.priority === filter;
+  };
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {BOARD_STATUSES.map((status) => {
+          const inColumn = complaints.filter(c => c.status === status);
+          const visible = inColumn.filter(c => matchesFilter(c, columnFilters[status]));
+          const isTarget = !!dragging && canMove(dragging, status);
+
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (isTarget) e.preventDefault();
+              }}
+              onDrop={() => handleDrop(status)}
+              className={cn(
+                "flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 p-3 transition-colors",
+                isTarget && "border-primary bg-primary/5",
+                dragging && !isTarget && dragging.status !== status && "opacity-50"
+              )}
+            >
+              <div className="mb-3 flex items-center justify-between gap-2">
+                <h3 className="text-sm font-semibold text-foreground">
+                  {statusConfig[status].label}
+                  <span className="ml-1 font-normal text-muted-foreground">({inColumn.length})</span>
+                </h3>
+                <Select
+                  value={columnFilters[status] ?? "all"}
+                  onValueChange={(value) => setColumnFilters(prev => ({ ...prev, [status]: value }))}
+                >
+                  <SelectTrigger className="h-7 w-[110px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="overdue">Overdue</SelectItem>
+                    {PRIORITIES.map((priority) => (
+                      <SelectItem key={priority} value={priority}>
+                        {priorityLabels[priority]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex min-h-24 flex-col gap-2">
+                {visible.map((complaint) => (
+                  <Card
+                    key={complaint.id}
+                    draggable
+                    onDragStart={() => setDragging(complaint)}
+                    onDragEnd={() => setDragging(null)}
+                    onClick={() => navigate(`/complaint/${complaint.id}`)}
+                    className="cursor-grab hover:shadow-medium transition-shadow active:cursor-grabbing"
+                  >
+                    <CardContent className="space-y-2 p-3">
+                      <p className="text-sm font-medium leading-snug text-foreground">{complaint.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {complaint.student_profile?.full_name || "Unknown"} • {formatDistanceToNow(new Date(complaint.created_at))} old
+                      </p>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <PriorityBadge priority={complaint.priority} />
+                        <SlaBadge complaint={complaint} />
+                        {complaint.unread_comments > 0 && (
+                          <span className="ml-auto flex items-center gap-1 text-xs font-medium text-primary">
+                            <MessageSquare className="h-3.5 w-3.5" />
+                            {complaint.unread_comments} new
+                          </span>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+                {visible.length === 0 && (
+                  <p className="py-6 text-center text-xs text-muted-foreground">
+                    {inColumn.length === 0 ? "Nothing here" : "No complaints match this filter"}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog
+        open={!!pendingMove}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingMove(null);
+            setReason("");
+          }
+        }}
+      >
+        {pendingMove && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Move to {statusConfig[pendingMove.status].label}</DialogTitle>
+              <DialogDescription>{pendingMove.complaint.title}</DialogDescription>
+            </DialogHeader>
+            <Textarea
+              placeholder={pendingMove.status === "needs_info"
+                ? "What information do you need from the student?"
+                : `Why is this complaint ${statusConfig[pendingMove.status].label.toLowerCase()}?`}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+            />
+            <DialogFooter>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setPendingMove(null);
+                  setReason("");
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={() => moveComplaint(pendingMove.complaint, pendingMove.status, reason)}
+                disabled={pendingMove.status === "rejected" && !reason.trim()}
+              >
+                Move to {statusConfig[pendingMove.status].label}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        )}
+      </Dialog>
+    </>
+  );
+};
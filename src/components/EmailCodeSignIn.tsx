@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CODE_LENGTH, CodeInput } from "@/components/CodeInput";
+import { useToast } from "@/hooks/use-toast";
+
+interface EmailCodeSignInProps {
+  onSignedIn: () => void;
+}
+
+// Passwordless sign-in: the email holds both a magic link and a code, so either works
+export const EmailCodeSignIn = ({ onSignedIn }: EmailCodeSignInProps) => {
+  const { sendSignInCode, verifySignInCode } = useAuth();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSend = async (e?: React.FormEvent<HTMLFormElement>) => {
+    e?.preventDefault();
+    setIsLoading(true);
+
+    const { error } = await sendSignInCode(email.trim());
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setCodeSent(true);
+      setCode("");
+      toast({
+        title: "Check your email",
+        description: `We sent a sign-in link and code to ${email.trim()}`,
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const { error } = await verifySignInCode(email.trim(), code);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: "Logged in successfully",
+    });
+    onSignedIn();
+  };
+
+  if (!codeSent) {
+    return (
+      <form onSubmit={handleSend} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="code-email">Email</Label>
+          <Input
+            id="code-email"
+            type="email"
+            placeholder="your.email@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          We'll email you a link and a {CODE_LENGTH}-digit code so you can sign in without a password.
+        </p>
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Sending..." : "Email Me a Code"}
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Code sent to {email.trim()}</Label>
+        <CodeInput value={code} onChange={setCode} />
+        <p className="text-sm text-muted-foreground">Or open the link in the email on this device.</p>
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || code.length < CODE_LENGTH}>
+        {isLoading ? "Verifying..." : "Sign In"}
+      </Button>
+      <div className="flex justify-between text-sm">
+        <Button type="button" variant="link" className="h-auto p-0" onClick={() => setCodeSent(false)}>
+          Use a different email
+        </Button>
+        <Button type="button" variant="link" className="h-auto p-0" onClick={() => handleSend()} disabled={isLoading}>
+          Send a new code
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { UserRole } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { invokeFunction } from "@/lib/functions";
+import { formatDistanceToNow } from "date-fns";
+import { Send, X } from "lucide-react";
+
+type Invitation = {
+  id: string;
+  email: string;
+  role: UserRole;
+  created_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+};
+
+type InvitationState = "pending" | "accepted" | "expired" | "revoked";
+
+const stateOf = (invitation: Invitation): InvitationState => {
+  if (invitation.accepted_at) return "accepted";
+  if (invitation.revoked_at) return "revoked";
+  if (new Date(invitation.expires_at) <= new Date()) return "expired";
+  return "pending";
+};
+
+const stateVariants: Record<InvitationState, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "default",
+  accepted: "secondary",
+  expired: "outline",
+  revoked: "destructive",
+};
+
+export const InvitationSettings = () => {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<UserRole>("staff");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchInvitations = async () => {
+    const { data, error } = await supabase
+      .from("invitations")
+      .select("id, email, role, created_at, expires_at, accepted_at, revoked_at")
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    setInvitations(data || []);
+  };
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSending(true);
+
+    try {
+      await invokeFunction("send-invitation", {
+        email,
+        role,
+        redirect_to: `${window.location.origin}/auth`,
+      });
+
+      toast({
+        title: "Success",
+        description: `Invitation sent to ${email.trim()}`,
+      });
+
+      setEmail("");
+      fetchInvitations();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRevoke = async (invitationId: string) => {
+    try {
+      const { error } = await supabase
+        .from("invitations")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", invitationId)
+        .is("accepted_at", null);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Invitation revoked",
+      });
+
+      fetchInvitations();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Invitations</CardTitle>
+        <CardDescription>
+          Invite someone by email with their role already set. The sign-up link works once and expires after 7 days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleInvite} className="flex flex-wrap gap-3">
+          <Input
+            type="email"
+            placeholder="name@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="max-w-sm"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="staff">Staff</SelectItem>
+              <SelectItem value="admin">Admin</SelectItem>
+              <SelectItem value="student">Student</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={sending}>
+            <Send className="h-4 w-4 mr-2" />
+            {sending ? "Sending..." : "Send Invitation"}
+          </Button>
+        </form>
+
+        {invitations.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No invitations sent yet</p>
+        ) : (
+          <div className="space-y-3">
+            {invitations.map((invitation) => {
+              const state = stateOf(invitation);
+              return (
+                <div key={invitation.id} className="flex items-center justify-between gap-4 p-3 border border-border rounded-md">
+                  <div>
+                    <p className="font-medium">{invitation.email}</p>
+                    <p className="text-sm text-muted-foreground capitalize">
+                      {invitation.role} • sent {formatDistanceToNow(new Date(invitation.created_at))} ago
+                      {state === "pending" && ` • expires in ${formatDistanceToNow(new Date(invitation.expires_at))}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={stateVariants[state]} className="capitalize">{state}</Badge>
+                    {state === "pending" && (
+                      <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation.id)}>
+                        <X className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
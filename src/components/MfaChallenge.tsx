@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CODE_LENGTH, CodeInput } from "@/components/CodeInput";
+import { useToast } from "@/hooks/use-toast";
+import { invokeFunction } from "@/lib/functions";
+
+interface MfaChallengeProps {
+  onComplete: () => void;
+}
+
+// Second sign-in step for accounts with a verified authenticator
+export const MfaChallenge = ({ onComplete }: MfaChallengeProps) => {
+  const { refreshMfa } = useAuth();
+  const { toast } = useToast();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [backupCode, setBackupCode] = useState("");
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    fetchFactor();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchFactor = async () => {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    setFactorId(data.totp[0]?.id ?? null);
+  };
+
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!factorId) return;
+    setIsLoading(true);
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+    if (error) {
+      setCode("");
+      setIsLoading(false);
+      showError(error);
+      return;
+    }
+
+    await refreshMfa();
+    onComplete();
+  };
+
+  // Redeeming a backup code removes the lost authenticator, so the next step is setting up a new one
+  const handleBackupCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await invokeFunction("redeem-backup-code", { code: backupCode });
+
+      const { error } = await supabase.auth.refreshSession();
+      if (error) throw error;
+      await refreshMfa();
+
+      toast({
+        title: "Backup code accepted",
+        description: "Set up your authenticator app again to continue.",
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (useBackupCode) {
+    return (
+      <form onSubmit={handleBackupCode} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="backup-code">Backup code</Label>
+          <Input
+            id="backup-code"
+            placeholder="xxxxx-xxxxx"
+            value={backupCode}
+            onChange={(e) => setBackupCode(e.target.value)}
+            autoComplete="off"
+            required
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? "Checking..." : "Use Backup Code"}
+        </Button>
+        <Button type="button" variant="link" className="w-full" onClick={() => setUseBackupCode(false)}>
+          Use my authenticator app instead
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Code from your authenticator app</Label>
+        <CodeInput value={code} onChange={setCode} disabled={!factorId} />
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || code.length < CODE_LENGTH}>
+        {isLoading ? "Verifying..." : "Verify"}
+      </Button>
+      <Button type="button" variant="link" className="w-full" onClick={() => setUseBackupCode(true)}>
+        Lost your phone? Use a backup code
+      </Button>
+    </form>
+  );
+};
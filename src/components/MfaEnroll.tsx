@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { CODE_LENGTH, CodeInput } from "@/components/CodeInput";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Download } from "lucide-react";
+
+interface MfaEnrollProps {
+  onComplete: () => void;
+}
+
+// Sets up a TOTP authenticator: scan the QR code, confirm one code, then save the backup codes
+export const MfaEnroll = ({ onComplete }: MfaEnrollProps) => {
+  const { refreshMfa } = useAuth();
+  const { toast } = useToast();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [qrCode, setQrCode] = useState("");
+  const [secret, setSecret] = useState("");
+  const [code, setCode] = useState("");
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    startEnrollment();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const startEnrollment = async () => {
+    try {
+      // A setup abandoned halfway leaves an unverified factor behind; clear it and start over
+      const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+      if (listError) throw listError;
+
+      for (const factor of factors.all.filter(f => f.status === "unverified")) {
+        const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (error) throw error;
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: "totp",
+        friendlyName: "Authenticator app",
+      });
+
+      if (error) throw error;
+
+      setFactorId(data.id);
+      setQrCode(data.totp.qr_code);
+      setSecret(data.totp.secret);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!factorId) return;
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+      if (error) throw error;
+
+      // The session is aal2 now, which generating backup codes requires
+      const { data, error: codesError } = await supabase.rpc("generate_mfa_backup_codes");
+      if (codesError) throw codesError;
+
+      setBackupCodes(data || []);
+      await refreshMfa();
+    } catch (error) {
+      setCode("");
+      showError(error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([backupCodes.join("\n") + "\n"], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "brototype-cms-backup-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (backupCodes.length > 0) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Your authenticator is set up. Save these backup codes somewhere safe. Each one works once
+          if you lose your phone, and they won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 rounded-md border border-border bg-muted/40 p-4 font-mono text-sm">
+          {backupCodes.map((backupCode) => (
+            <span key={backupCode}>{backupCode}</span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => {
+              navigator.clipboard.writeText(backupCodes.join("\n"));
+              toast({ title: "Copied", description: "Backup codes copied to the clipboard" });
+            }}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </div>
+        <Button className="w-full" onClick={onComplete}>
+          I've saved my backup codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Staff and admin accounts need an authenticator app. Scan this QR code with Google
+        Authenticator, 1Password or a similar app, then enter the {CODE_LENGTH}-digit code it shows.
+      </p>
+      {qrCode ? (
+        <div className="flex flex-col items-center gap-2">
+          <img src={qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-md border border-border bg-white p-2" />
+          <p className="text-xs text-muted-foreground">
+            Can't scan? Enter this key: <span className="font-mono break-all text-foreground">{secret}</span>
+          </p>
+        </div>
+      ) : (
+        <p className="py-8 text-center text-muted-foreground">Loading...</p>
+      )}
+      <div className="space-y-2">
+        <Label>Code from your app</Label>
+        <CodeInput value={code} onChange={setCode} disabled={!factorId} />
+      </div>
+      <Button type="submit" className="w-full" disabled={isLoading || code.length < CODE_LENGTH}>
+        {isLoading ? "Verifying..." : "Verify and Continue"}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useRealtime } from "@/hooks/use-realtime";
+import type { NotificationType } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import { Bell } from "lucide-react";
+
+type Notification = {
+  id: string;
+  complaint_id: string | null;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+const NOTIFICATION_LIMIT = 20;
+
+export const NotificationBell = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [user]);
+
+  useRealtime(`notifications-${user?.id}`, [
+    { table: "notifications", filter: `user_id=eq.${user?.id}`, onChange: () => fetchNotifications() },
+  ], !!user);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications(data || []);
+
+      const { count, error: countError } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id)
+        .is("read_at", null);
+
+      if (countError) throw countError;
+      setUnreadCount(count || 0);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  };
+
+  const markAsRead = async (notificationId: string) => {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("id", notificationId);
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+    fetchNotifications();
+  };
+
+  const handleMarkAllAsRead = async () => {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", user!.id)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+    fetchNotifications();
+  };
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read_at) {
+      markAsRead(notification.id);
+    }
+    if (notification.complaint_id) {
+      navigate(`/complaint/${notification.complaint_id}`);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto py-0" onClick={handleMarkAllAsRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">You're all caught up</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => handleSelect(notification)}
+                className="flex items-start gap-2 py-2 cursor-pointer"
+              >
+                <span
+                  className={cn(
+                    "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                    notification.read_at ? "bg-transparent" : "bg-primary"
+                  )}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={cn("text-sm", !notification.read_at && "font-medium")}>{notification.title}</p>
+                  {notification.body && (
+                    <p className="text-xs text-muted-foreground truncate">{notification.body}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {new Date(notification.created_at).toLocaleString()}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
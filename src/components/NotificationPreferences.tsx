@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { NOTIFICATION_EVENTS, NotificationChannel, NotificationType } from "@/lib/notifications";
+
+type Preference = Record<NotificationChannel, boolean>;
+
+// Matches the column defaults: without a saved row, both channels are on
+const DEFAULT_PREFERENCE: Preference = { in_app: true, email: true };
+
+export const NotificationPreferences = () => {
+  const { user, userRoles } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Partial<Record<NotificationType, Preference>>>({});
+
+  const events = NOTIFICATION_EVENTS.filter(event => event.roles.some(role => userRoles.includes(role)));
+
+  useEffect(() => {
+    if (user) fetchPreferences();
+  }, [user?.id]);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .select("type, in_app, email")
+      .eq("user_id", user!.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const loaded: Partial<Record<NotificationType, Preference>> = {};
+    data?.forEach(({ type, in_app, email }) => {
+      loaded[type] = { in_app, email };
+    });
+    setPreferences(loaded);
+  };
+
+  const handleToggle = async (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    const previous = preferences[type] ?? DEFAULT_PREFERENCE;
+    const next = { ...previous, [channel]: enabled };
+
+    // Flip the switch straight away and put it back if the save fails
+    setPreferences(current => ({ ...current, [type]: next }));
+
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert({ user_id: user!.id, type, ...next });
+
+    if (error) {
+      setPreferences(current => ({ ...current, [type]: previous }));
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>Choose which events reach you in the notification bell and by email</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              <TableHead className="w-[100px] text-center">In-app</TableHead>
+              <TableHead className="w-[100px] text-center">Email</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.map((event) => {
+              const preference = preferences[event.type] ?? DEFAULT_PREFERENCE;
+              return (
+                <TableRow key={event.type}>
+                  <TableCell>
+                    <p className="font-medium">{event.label}</p>
+                    <p className="text-sm text-muted-foreground">{event.description}</p>
+                  </TableCell>
+                  {(["in_app", "email"] as NotificationChannel[]).map((channel) => (
+                    <TableCell key={channel} className="text-center">
+                      {event.channels.includes(channel) ? (
+                        <Switch
+                          checked={preference[channel]}
+                          onCheckedChange={(checked) => handleToggle(event.type, channel, checked)}
+                          aria-label={`${event.label} ${channel === "email" ? "by email" : "in-app"}`}
+                        />
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+export const PasswordSettings = () => {
+  const { updatePassword } = useAuth();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const password = formData.get("password") as string;
+    const confirm = formData.get("confirm") as string;
+
+    if (password !== confirm) {
+      toast({
+        title: "Error",
+        description: "The passwords don't match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    const { error } = await updatePassword(password);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      form.reset();
+      toast({
+        title: "Success",
+        description: "Your password has been changed",
+      });
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password</CardTitle>
+        <CardDescription>Choose a new password for signing in with your email</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+          <div className="space-y-2">
+            <Label htmlFor="settings-new-password">New password</Label>
+            <Input
+              id="settings-new-password"
+              name="password"
+              type="password"
+              placeholder="••••••••"
+              autoComplete="new-password"
+              required
+              minLength={6}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settings-confirm-password">Confirm new password</Label>
+            <Input
+              id="settings-confirm-password"
+              name="confirm"
+              type="password"
+              placeholder="••••••••"
+              autoComplete="new-password"
+              required
+              minLength={6}
+            />
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Change Password"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { ComplaintPriority, priorityLabels } from "@/lib/complaints";
+
+interface PriorityBadgeProps {
+  priority: ComplaintPriority;
+}
+
+export const PriorityBadge = ({ priority }: PriorityBadgeProps) => {
+  const priorityConfig = {
+    low: "bg-muted text-muted-foreground hover:bg-muted border-border",
+    normal: "bg-secondary text-secondary-foreground hover:bg-secondary border-border",
+    high: "bg-warning text-warning-foreground hover:bg-warning/90 border-warning",
+    critical: "bg-destructive text-destructive-foreground hover:bg-destructive/90 border-destructive",
+  };
+
+  return (
+    <Badge className={priorityConfig[priority]}>
+      {priorityLabels[priority]}
+    </Badge>
+  );
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ALLOWED_AVATAR_TYPES, avatarUrl, initials, replaceAvatar, validateAvatar } from "@/lib/avatars";
+import { Upload } from "lucide-react";
+
+export const ProfileSettings = () => {
+  const { user, profile, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fullName, setFullName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (profile) setFullName(profile.full_name);
+  }, [profile?.full_name]);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!user) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ full_name: fullName.trim() })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Profile updated",
+      });
+
+      await refreshProfile();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAvatar = async (file: File | null) => {
+    if (!user) return;
+
+    const invalid = file && validateAvatar(file);
+    if (invalid) {
+      showError({ message: invalid });
+      return;
+    }
+
+    setUploading(true);
+
+    try {
+      await replaceAvatar(user.id, file, profile?.avatar_path ?? null);
+      await refreshProfile();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>How you appear to others in Brototype CMS</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Avatar className="h-16 w-16">
+            <AvatarImage src={avatarUrl(profile?.avatar_path ?? null)} alt="" />
+            <AvatarFallback className="text-lg">{initials(profile?.full_name)}</AvatarFallback>
+          </Avatar>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ALLOWED_AVATAR_TYPES.join(",")}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) handleAvatar(file);
+            }}
+            className="hidden"
+          />
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={uploading}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? "Uploading..." : "Upload Picture"}
+            </Button>
+            {profile?.avatar_path && (
+              <Button variant="ghost" size="sm" onClick={() => handleAvatar(null)} disabled={uploading}>
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4 max-w-md">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Full Name</Label>
+            <Input
+              id="profile-name"
+              value={fullName}
+              onChange={(e) => setFullName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-email">Email</Label>
+            <Input id="profile-email" value={user?.email ?? ""} disabled />
+          </div>
+          <Button type="submit" disabled={saving || !fullName.trim() || fullName.trim() === profile?.full_name}>
+            {saving ? "Saving..." : "Save Profile"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
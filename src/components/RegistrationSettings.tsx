@@ -0,0 +1,289 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Plus, Trash2, X } from "lucide-react";
+
+type AllowlistKind = "domain" | "email";
+
+type AllowlistEntry = {
+  id: string;
+  kind: AllowlistKind;
+  value: string;
+  batch: string | null;
+};
+
+type PendingRegistration = {
+  user_id: string;
+  email: string;
+  created_at: string;
+  full_name: string | null;
+};
+
+interface RegistrationSettingsProps {
+  /** Called after a registration is approved, so the caller can refresh its user lists */
+  onApproved?: () => void;
+}
+
+export const RegistrationSettings = ({ onApproved }: RegistrationSettingsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AllowlistEntry[]>([]);
+  const [pending, setPending] = useState<PendingRegistration[]>([]);
+  const [kind, setKind] = useState<AllowlistKind>("domain");
+  const [value, setValue] = useState("");
+  const [batch, setBatch] = useState("");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEntries();
+    fetchPending();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchEntries = async () => {
+    const { data, error } = await supabase
+      .from("signup_allowlist")
+      .select("id, kind, value, batch")
+      .order("kind")
+      .order("value");
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    setEntries((data || []) as AllowlistEntry[]);
+  };
+
+  const fetchPending = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("registrations")
+        .select("user_id, email, created_at")
+        .eq("status", "pending")
+        .order("created_at");
+
+      if (error) throw error;
+
+      const userIds = (data || []).map((registration) => registration.user_id);
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", userIds);
+
+      if (profilesError) throw profilesError;
+
+      const names = new Map((profiles || []).map((profile) => [profile.id, profile.full_name]));
+      setPending((data || []).map((registration) => ({
+        ...registration,
+        full_name: names.get(registration.user_id) ?? null,
+      })));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    // Accept "@example.com" for a domain, the way people tend to type it
+    const trimmed = value.trim().toLowerCase();
+    const normalized = kind === "domain" ? trimmed.replace(/^@/, "") : trimmed;
+    const isValid = kind === "domain"
+      ? /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(normalized)
+      : /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized);
+
+    if (!isValid) {
+      showError({ message: kind === "domain" ? "Enter a domain like example.com" : "Enter a valid email address" });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("signup_allowlist")
+        .insert({ kind, value: normalized, batch: batch.trim() || null, created_by: user?.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${normalized} can now sign up`,
+      });
+
+      setValue("");
+      setBatch("");
+      fetchEntries();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemove = async (entryId: string) => {
+    try {
+      const { error } = await supabase
+        .from("signup_allowlist")
+        .delete()
+        .eq("id", entryId);
+
+      if (error) throw error;
+
+      fetchEntries();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleReview = async (registration: PendingRegistration, approve: boolean) => {
+    setReviewingId(registration.user_id);
+
+    try {
+      const { error } = await supabase.rpc("review_registration", {
+        _user_id: registration.user_id,
+        _approve: approve,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${registration.email} ${approve ? "approved" : "rejected"}`,
+      });
+
+      fetchPending();
+      if (approve) onApproved?.();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <>
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Pending Registrations
+            {pending.length > 0 && <Badge variant="secondary">{pending.length}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Sign-ups from addresses that aren't on the allowlist. They can't sign in until you approve them as students.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {pending.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No registrations waiting for review</p>
+          ) : (
+            <div className="space-y-3">
+              {pending.map((registration) => (
+                <div key={registration.user_id} className="flex items-center justify-between gap-4 p-3 border border-border rounded-md">
+                  <div>
+                    <p className="font-medium">{registration.full_name || registration.email}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {registration.email} • signed up {formatDistanceToNow(new Date(registration.created_at))} ago
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleReview(registration, true)}
+                      disabled={reviewingId === registration.user_id}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleReview(registration, false)}
+                      disabled={reviewingId === registration.user_id}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Sign-up Allowlist</CardTitle>
+          <CardDescription>
+            Addresses on these domains, or listed individually, sign up as students straight away and join the entry's batch.
+            Anyone else has to wait for approval.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAdd} className="flex flex-wrap gap-3">
+            <Select value={kind} onValueChange={(value) => setKind(value as AllowlistKind)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="domain">Domain</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={kind === "domain" ? "example.com" : "name@example.com"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              required
+              className="max-w-xs"
+            />
+            <Input
+              placeholder="Batch (optional)"
+              value={batch}
+              onChange={(e) => setBatch(e.target.value)}
+              className="max-w-[180px]"
+            />
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </form>
+
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground text-sm">The allowlist is empty, so every sign-up needs approval</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between gap-4 p-3 border border-border rounded-md">
+                  <div>
+                    <p className="font-medium">{entry.kind === "domain" ? `@${entry.value}` : entry.value}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {entry.batch ? `Batch ${entry.batch}` : "No batch"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="capitalize">{entry.kind}</Badge>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+};
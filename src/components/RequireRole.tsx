@@ -0,0 +1,62 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { UserRole, useAuth } from "@/contexts/AuthContext";
+import { AppLayout } from "@/components/AppLayout";
+import { Button } from "@/components/ui/button";
+import Forbidden from "@/pages/Forbidden";
+
+interface RequireRoleProps {
+  roles?: UserRole[];
+}
+
+/**
+ * Route guard for signed-in pages. Visitors without a session are sent to
+ * /auth with the page they asked for as the redirect target, and so are staff
+ * and admins who haven't passed their MFA step yet and users whose
+ * registration hasn't been approved; signed-in users whose role is not in
+ * `roles` get a 403 page, and users whose roles failed to load get a retry
+ * prompt instead of waiting on them forever. Allowed pages render inside the sidebar layout.
+ */
+export const RequireRole = ({ roles }: RequireRoleProps) => {
+  const { user, userRole, mfaStep, registrationStatus, rolesError, retryRoles, signOut, loading } = useAuth();
+  const location = useLocation();
+  const awaitingApproval = !!registrationStatus && registrationStatus !== "approved";
+
+  if (!loading && user && rolesError) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="text-center">
+          <p className="mb-2 text-xl">We couldn't load your account</p>
+          <p className="mb-4 text-muted-foreground">{rolesError}</p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={retryRoles}>Try again</Button>
+            <Button variant="outline" onClick={signOut}>Sign out</Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // The role is fetched after the session, so wait for both (users awaiting approval have none)
+  if (loading || (user && !userRole && !awaitingApproval)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <p className="text-xl text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user || mfaStep || awaitingApproval) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/auth?redirect=${redirect}`} replace />;
+  }
+
+  if (roles && !roles.includes(userRole!)) {
+    return <Forbidden allowedRoles={roles} />;
+  }
+
+  return (
+    <AppLayout>
+      <Outlet />
+    </AppLayout>
+  );
+};
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Star } from "lucide-react";
+
+export type Feedback = {
+  id: string;
+  outcome: "confirmed" | "disputed";
+  rating: number | null;
+  comment: string | null;
+  created_at: string;
+};
+
+interface ResolutionFeedbackProps {
+  complaintId: string;
+  resolvedAt: string | null;
+  status: string;
+  feedback: Feedback[];
+  isStudent: boolean;
+  onSubmitted: () => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const StarRating = ({ value, onChange }: { value: number; onChange?: (rating: number) => void }) => (
+  <div className="flex gap-1">
+    {RATINGS.map((rating) => (
+      <button
+        key={rating}
+        type="button"
+        disabled={!onChange}
+        onClick={() => onChange?.(rating)}
+        className={cn(!onChange && "cursor-default")}
+      >
+        <Star className={cn("h-5 w-5", rating <= value ? "fill-warning text-warning" : "text-muted-foreground")} />
+        <span className="sr-only">{rating} stars</span>
+      </button>
+    ))}
+  </div>
+);
+
+export const ResolutionFeedback = ({ complaintId, resolvedAt, status, feedback, isStudent, onSubmitted }: ResolutionFeedbackProps) => {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // The student responds once per resolution; a dispute reopens the complaint for another round
+  const awaitingResponse = isStudent && status === "resolved" && !!resolvedAt &&
+    !feedback.some(f => new Date(f.created_at) >= new Date(resolvedAt));
+
+  const handleSubmit = async (outcome: Feedback["outcome"]) => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("submit_resolution_feedback", {
+        _complaint_id: complaintId,
+        _outcome: outcome,
+        _rating: rating || undefined,
+        _comment: comment.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: outcome === "confirmed" ? "Thanks for your feedback" : "Complaint reopened",
+        description: outcome === "confirmed"
+          ? "We're glad your issue was resolved"
+          : "The assigned staff member has been notified",
+      });
+
+      setRating(0);
+      setComment("");
+      onSubmitted();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!awaitingResponse && feedback.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Resolution Feedback</CardTitle>
+        {awaitingResponse && (
+          <CardDescription>
+            This complaint was marked as resolved. Let us know if the issue is fixed.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {awaitingResponse && (
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium mb-1">How satisfied are you with the resolution?</p>
+              <StarRating value={rating} onChange={setRating} />
+            </div>
+            <Textarea
+              placeholder="Tell us more (required if the issue isn't fixed)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+            />
+            <div className="flex gap-2">
+              <Button onClick={() => handleSubmit("confirmed")} disabled={submitting || rating === 0}>
+                Confirm Resolution
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleSubmit("disputed")}
+                disabled={submitting || !comment.trim()}
+              >
+                It's Not Fixed
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {feedback.map((entry) => (
+          <div key={entry.id} className="p-3 border border-border rounded-md space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant={entry.outcome === "confirmed" ? "secondary" : "destructive"}>
+                  {entry.outcome === "confirmed" ? "Confirmed" : "Disputed"}
+                </Badge>
+                {entry.rating && <StarRating value={entry.rating} />}
+              </div>
+              <span className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</span>
+            </div>
+            {entry.comment && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{entry.comment}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
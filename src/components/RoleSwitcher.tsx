@@ -0,0 +1,56 @@
+import { useNavigate } from "react-router-dom";
+import { UserRole, useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ROLE_HOME } from "@/lib/navigation";
+import { ChevronDown } from "lucide-react";
+
+const roleLabels: Record<UserRole, string> = {
+  student: "Student",
+  staff: "Staff",
+  admin: "Admin",
+};
+
+// Only shown to users who hold more than one role
+export const RoleSwitcher = () => {
+  const { userRole, userRoles, switchRole } = useAuth();
+  const navigate = useNavigate();
+
+  if (!userRole || userRoles.length < 2) return null;
+
+  const handleChange = (value: string) => {
+    const role = value as UserRole;
+    switchRole(role);
+    navigate(ROLE_HOME[role]);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          {roleLabels[userRole]}
+          <ChevronDown className="ml-2 h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Acting as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={userRole} onValueChange={handleChange}>
+          {userRoles.map((role) => (
+            <DropdownMenuRadioItem key={role} value={role}>
+              {roleLabels[role]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,509 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORIES, ComplaintCategory, ComplaintPriority, PRIORITIES, priorityLabels } from "@/lib/complaints";
+import { ArrowDown, ArrowUp, Trash2, X } from "lucide-react";
+
+type Strategy = "round_robin" | "least_open_workload";
+
+type StaffPool = {
+  id: string;
+  name: string;
+  strategy: Strategy;
+  members: string[];
+};
+
+type AssignmentRule = {
+  id: string;
+  name: string;
+  position: number;
+  is_active: boolean;
+  category: ComplaintCategory | null;
+  priority: ComplaintPriority | null;
+  keywords: string[] | null;
+  target_staff_id: string | null;
+  target_pool_id: string | null;
+};
+
+type StaffMember = {
+  id: string;
+  full_name: string;
+};
+
+interface RoutingSettingsProps {
+  staffMembers: StaffMember[];
+}
+
+const strategyLabels: Record<Strategy, string> = {
+  round_robin: "Round robin",
+  least_open_workload: "Least open workload",
+};
+
+const emptyRule = {
+  name: "",
+  category: "any",
+  priority: "any",
+  keywords: "",
+  target: "",
+};
+
+export const RoutingSettings = ({ staffMembers }: RoutingSettingsProps) => {
+  const { toast } = useToast();
+  const [pools, setPools] = useState<StaffPool[]>([]);
+  const [rules, setRules] = useState<AssignmentRule[]>([]);
+  const [newPool, setNewPool] = useState<{ name: string; strategy: Strategy }>({ name: "", strategy: "round_robin" });
+  const [newRule, setNewRule] = useState(emptyRule);
+
+  useEffect(() => {
+    fetchRouting();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchRouting = async () => {
+    try {
+      const { data: poolData, error: poolError } = await supabase
+        .from("staff_pools")
+        .select("id, name, strategy")
+        .order("name", { ascending: true });
+
+      if (poolError) throw poolError;
+
+      const { data: memberData, error: memberError } = await supabase
+        .from("staff_pool_members")
+        .select("pool_id, user_id");
+
+      if (memberError) throw memberError;
+
+      setPools((poolData || []).map(pool => ({
+        ...pool,
+        members: memberData?.filter(m => m.pool_id === pool.id).map(m => m.user_id) || [],
+      })));
+
+      const { data: ruleData, error: ruleError } = await supabase
+        .from("assignment_rules")
+        .select("id, name, position, is_active, category, priority, keywords, target_staff_id, target_pool_id")
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true });
+
+      if (ruleError) throw ruleError;
+      setRules(ruleData || []);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleCreatePool = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase.from("staff_pools").insert(newPool);
+      if (error) throw error;
+
+      setNewPool({ name: "", strategy: "round_robin" });
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleUpdateStrategy = async (poolId: string, strategy: Strategy) => {
+    try {
+      const { error } = await supabase.from("staff_pools").update({ strategy }).eq("id", poolId);
+      if (error) throw error;
+
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeletePool = async (poolId: string) => {
+    try {
+      const { error } = await supabase.from("staff_pools").delete().eq("id", poolId);
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Pool deleted along with the rules that targeted it",
+      });
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAddMember = async (poolId: string, userId: string) => {
+    try {
+      const { error } = await supabase.from("staff_pool_members").insert({ pool_id: poolId, user_id: userId });
+      if (error) throw error;
+
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemoveMember = async (poolId: string, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from("staff_pool_members")
+        .delete()
+        .eq("pool_id", poolId)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleCreateRule = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    // Targets are encoded as "staff:<id>" or "pool:<id>" in the select
+    const [targetType, targetId] = newRule.target.split(":");
+    const keywords = newRule.keywords.split(",").map(k => k.trim()).filter(Boolean);
+
+    try {
+      const { error } = await supabase.from("assignment_rules").insert({
+        name: newRule.name,
+        position: rules.length > 0 ? rules[rules.length - 1].position + 1 : 0,
+        category: newRule.category === "any" ? null : newRule.category as ComplaintCategory,
+        priority: newRule.priority === "any" ? null : newRule.priority as ComplaintPriority,
+        keywords: keywords.length > 0 ? keywords : null,
+        target_staff_id: targetType === "staff" ? targetId : null,
+        target_pool_id: targetType === "pool" ? targetId : null,
+      });
+
+      if (error) throw error;
+
+      setNewRule(emptyRule);
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggleRule = async (ruleId: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from("assignment_rules").update({ is_active: isActive }).eq("id", ruleId);
+      if (error) throw error;
+
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleMoveRule = async (index: number, direction: -1 | 1) => {
+    const other = index + direction;
+    if (other < 0 || other >= rules.length) return;
+
+    // Renumber the whole list so rules that share a position get a stable order
+    const reordered = [...rules];
+    [reordered[index], reordered[other]] = [reordered[other], reordered[index]];
+
+    try {
+      for (const [position, rule] of reordered.entries()) {
+        if (rule.position === position) continue;
+        const { error } = await supabase.from("assignment_rules").update({ position }).eq("id", rule.id);
+        if (error) throw error;
+      }
+
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase.from("assignment_rules").delete().eq("id", ruleId);
+      if (error) throw error;
+
+      fetchRouting();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const staffName = (id: string) => staffMembers.find(s => s.id === id)?.full_name || "Unknown";
+
+  const describeConditions = (rule: AssignmentRule) => {
+    const conditions = [];
+    if (rule.category) conditions.push(`Category: ${rule.category}`);
+    if (rule.priority) conditions.push(`Priority: ${priorityLabels[rule.priority]}`);
+    if (rule.keywords?.length) conditions.push(`Mentions: ${rule.keywords.join(", ")}`);
+    return conditions.length > 0 ? conditions : ["Every complaint"];
+  };
+
+  const describeTarget = (rule: AssignmentRule) => {
+    if (rule.target_staff_id) return staffName(rule.target_staff_id);
+    const pool = pools.find(p => p.id === rule.target_pool_id);
+    return pool ? `${pool.name} (pool)` : "Unknown pool";
+  };
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignment Rules</CardTitle>
+          <CardDescription>
+            New complaints are checked against active rules from top to bottom. The first match assigns the complaint;
+            if nothing matches it stays in the unassigned queue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {rules.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No assignment rules configured</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Assign to</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule, index) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggleRule(rule.id, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {describeConditions(rule).map((condition) => (
+                          <Badge key={condition} variant="secondary" className="capitalize">
+                            {condition}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{describeTarget(rule)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => handleMoveRule(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === rules.length - 1}
+                        onClick={() => handleMoveRule(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <form onSubmit={handleCreateRule} className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Rule name</Label>
+              <Input
+                id="rule-name"
+                value={newRule.name}
+                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                placeholder="e.g. Lab equipment"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={newRule.category} onValueChange={(value) => setNewRule({ ...newRule, category: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any category</SelectItem>
+                  {CATEGORIES.map((c) => (
+                    <SelectItem key={c} value={c} className="capitalize">
+                      {c}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={newRule.priority} onValueChange={(value) => setNewRule({ ...newRule, priority: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any priority</SelectItem>
+                  {PRIORITIES.map((p) => (
+                    <SelectItem key={p} value={p}>
+                      {priorityLabels[p]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-keywords">Keywords</Label>
+              <Input
+                id="rule-keywords"
+                value={newRule.keywords}
+                onChange={(e) => setNewRule({ ...newRule, keywords: e.target.value })}
+                placeholder="wifi, projector"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Assign to</Label>
+              <Select value={newRule.target} onValueChange={(value) => setNewRule({ ...newRule, target: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose target" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pools.map((pool) => (
+                    <SelectItem key={pool.id} value={`pool:${pool.id}`}>
+                      {pool.name} (pool)
+                    </SelectItem>
+                  ))}
+                  {staffMembers.map((staff) => (
+                    <SelectItem key={staff.id} value={`staff:${staff.id}`}>
+                      {staff.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!newRule.target} className="md:col-start-5">
+              Add Rule
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff Pools</CardTitle>
+          <CardDescription>Rules that target a pool pick one of its members using the pool's strategy</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleCreatePool} className="flex gap-2">
+            <Input
+              placeholder="Pool name"
+              value={newPool.name}
+              onChange={(e) => setNewPool({ ...newPool, name: e.target.value })}
+              required
+            />
+            <Select
+              value={newPool.strategy}
+              onValueChange={(value) => setNewPool({ ...newPool, strategy: value as Strategy })}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(strategyLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit">Create Pool</Button>
+          </form>
+
+          {pools.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No staff pools yet</p>
+          ) : (
+            <div className="space-y-3">
+              {pools.map((pool) => {
+                const availableStaff = staffMembers.filter(s => !pool.members.includes(s.id));
+                return (
+                  <div key={pool.id} className="p-4 border border-border rounded-md space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <p className="font-medium">{pool.name}</p>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={pool.strategy}
+                          onValueChange={(value) => handleUpdateStrategy(pool.id, value as Strategy)}
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(strategyLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeletePool(pool.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {pool.members.length === 0 && (
+                        <span className="text-sm text-muted-foreground">No members</span>
+                      )}
+                      {pool.members.map((memberId) => (
+                        <Badge key={memberId} variant="secondary" className="gap-1">
+                          {staffName(memberId)}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMember(pool.id, memberId)}
+                            className="hover:text-destructive"
+                          >
+                            <X className="h-3 w-3" />
+                            <span className="sr-only">Remove</span>
+                          </button>
+                        </Badge>
+                      ))}
+                      {availableStaff.length > 0 && (
+                        <Select value="" onValueChange={(value) => handleAddMember(pool.id, value)}>
+                          <SelectTrigger className="w-[180px] h-8">
+                            <SelectValue placeholder="Add member..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableStaff.map((staff) => (
+                              <SelectItem key={staff.id} value={staff.id}>
+                                {staff.full_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { Badge } from "@/components/ui/badge";
+import { formatDistanceToNow } from "date-fns";
+import { AlarmClock } from "lucide-react";
+
+export type SlaFields = {
+  status: string;
+  first_response_due_at: string | null;
+  resolution_due_at: string | null;
+  first_responded_at: string | null;
+  resolved_at: string | null;
+  first_response_breached: boolean;
+  resolution_breached: boolean;
+};
+
+interface SlaBadgeProps {
+  complaint: SlaFields;
+}
+
+export const SlaBadge = ({ complaint }: SlaBadgeProps) => {
+  if (complaint.first_response_breached || complaint.resolution_breached) {
+    const label = complaint.resolution_breached ? "Resolution SLA breached" : "Response SLA breached";
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <AlarmClock className="h-3 w-3" />
+        {label}
+      </Badge>
+    );
+  }
+
+  if (complaint.resolved_at) return null;
+
+  // Show whichever deadline comes next
+  const nextDue = !complaint.first_responded_at && complaint.first_response_due_at
+    ? complaint.first_response_due_at
+    : complaint.resolution_due_at;
+
+  if (!nextDue) return null;
+
+  return (
+    <Badge variant="outline" className="gap-1 text-muted-foreground">
+      <AlarmClock className="h-3 w-3" />
+      Due {formatDistanceToNow(new Date(nextDue), { addSuffix: true })}
+    </Badge>
+  );
+};
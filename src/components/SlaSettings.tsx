@@ -0,0 +1,390 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORIES, ComplaintCategory, ComplaintPriority, PRIORITIES, comparePriority, priorityLabels } from "@/lib/complaints";
+import { Trash2 } from "lucide-react";
+
+type SlaPolicy = {
+  id: string;
+  category: ComplaintCategory;
+  priority: ComplaintPriority;
+  first_response_hours: number;
+  resolution_hours: number;
+};
+
+type BusinessDay = {
+  weekday: number;
+  open: boolean;
+  opens_at: string;
+  closes_at: string;
+};
+
+type EscalationRule = {
+  priority: ComplaintPriority;
+  escalate_to: ComplaintPriority;
+  idle_hours: number;
+  is_active: boolean;
+};
+
+type Holiday = {
+  holiday_date: string;
+  name: string;
+};
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const SlaSettings = () => {
+  const { toast } = useToast();
+  const [category, setCategory] = useState<ComplaintCategory>("academic");
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [businessDays, setBusinessDays] = useState<BusinessDay[]>([]);
+  const [escalationRules, setEscalationRules] = useState<EscalationRule[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [newHoliday, setNewHoliday] = useState<Holiday>({ holiday_date: "", name: "" });
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchSettings = async () => {
+    try {
+      const { data: policyData, error: policyError } = await supabase
+        .from("sla_policies")
+        .select("id, category, priority, first_response_hours, resolution_hours");
+
+      if (policyError) throw policyError;
+      setPolicies(policyData || []);
+
+      const { data: hoursData, error: hoursError } = await supabase
+        .from("business_hours")
+        .select("*");
+
+      if (hoursError) throw hoursError;
+      const hoursMap = new Map(hoursData?.map(h => [h.weekday, h]) || []);
+      setBusinessDays(WEEKDAYS.map((_, weekday) => ({
+        weekday,
+        open: hoursMap.has(weekday),
+        opens_at: hoursMap.get(weekday)?.opens_at.slice(0, 5) ?? "09:00",
+        closes_at: hoursMap.get(weekday)?.closes_at.slice(0, 5) ?? "17:00",
+      })));
+
+      // Every priority except the highest can escalate one level up
+      const { data: ruleData, error: ruleError } = await supabase
+        .from("priority_escalation_rules")
+        .select("priority, escalate_to, idle_hours, is_active");
+
+      if (ruleError) throw ruleError;
+      const ruleMap = new Map(ruleData?.map(r => [r.priority, r]) || []);
+      setEscalationRules(PRIORITIES.slice(1).map((priority, index) => ruleMap.get(priority) ?? {
+        priority,
+        escalate_to: PRIORITIES[index],
+        idle_hours: 24,
+        is_active: false,
+      }));
+
+      const { data: holidayData, error: holidayError } = await supabase
+        .from("holidays")
+        .select("holiday_date, name")
+        .order("holiday_date", { ascending: true });
+
+      if (holidayError) throw holidayError;
+      setHolidays(holidayData || []);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const updatePolicyField = (id: string, field: "first_response_hours" | "resolution_hours", value: string) => {
+    setPolicies(policies.map(p => p.id === id ? { ...p, [field]: Number(value) } : p));
+  };
+
+  const handleSavePolicy = async (policy: SlaPolicy) => {
+    try {
+      const { error } = await supabase
+        .from("sla_policies")
+        .update({
+          first_response_hours: policy.first_response_hours,
+          resolution_hours: policy.resolution_hours,
+        })
+        .eq("id", policy.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "SLA policy updated. New targets apply to new complaints.",
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSaveBusinessHours = async () => {
+    try {
+      const closedDays = businessDays.filter(d => !d.open).map(d => d.weekday);
+      const openDays = businessDays
+        .filter(d => d.open)
+        .map(({ weekday, opens_at, closes_at }) => ({ weekday, opens_at, closes_at }));
+
+      if (closedDays.length > 0) {
+        const { error } = await supabase.from("business_hours").delete().in("weekday", closedDays);
+        if (error) throw error;
+      }
+
+      if (openDays.length > 0) {
+        const { error } = await supabase.from("business_hours").upsert(openDays);
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Business hours updated",
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const updateEscalationRule = (priority: ComplaintPriority, changes: Partial<EscalationRule>) => {
+    setEscalationRules(escalationRules.map(r => r.priority === priority ? { ...r, ...changes } : r));
+  };
+
+  const handleSaveEscalationRules = async () => {
+    try {
+      const { error } = await supabase.from("priority_escalation_rules").upsert(escalationRules);
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Escalation rules updated",
+      });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase.from("holidays").insert(newHoliday);
+      if (error) throw error;
+
+      setNewHoliday({ holiday_date: "", name: "" });
+      fetchSettings();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteHoliday = async (holidayDate: string) => {
+    try {
+      const { error } = await supabase.from("holidays").delete().eq("holiday_date", holidayDate);
+      if (error) throw error;
+
+      fetchSettings();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const categoryPolicies = policies
+    .filter(p => p.category === category)
+    .sort((a, b) => comparePriority(a.priority, b.priority));
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div>
+              <CardTitle>Response and Resolution Targets</CardTitle>
+              <CardDescription>Targets are measured in business hours</CardDescription>
+            </div>
+            <Select value={category} onValueChange={(value) => setCategory(value as ComplaintCategory)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CATEGORIES.map((c) => (
+                  <SelectItem key={c} value={c} className="capitalize">
+                    {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Priority</TableHead>
+                <TableHead>First response (hours)</TableHead>
+                <TableHead>Resolution (hours)</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categoryPolicies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell className="font-medium">{priorityLabels[policy.priority]}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0.25}
+                      step={0.25}
+                      value={policy.first_response_hours}
+                      onChange={(e) => updatePolicyField(policy.id, "first_response_hours", e.target.value)}
+                      className="w-28"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0.25}
+                      step={0.25}
+                      value={policy.resolution_hours}
+                      onChange={(e) => updatePolicyField(policy.id, "resolution_hours", e.target.value)}
+                      className="w-28"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => handleSavePolicy(policy)}>
+                      Save
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>Priority Escalation</CardTitle>
+          <CardDescription>
+            Open complaints nobody has touched for this long are bumped one priority level and admins are notified
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {escalationRules.map((rule) => (
+            <div key={rule.priority} className="flex items-center gap-3">
+              <Switch
+                checked={rule.is_active}
+                onCheckedChange={(is_active) => updateEscalationRule(rule.priority, { is_active })}
+              />
+              <span className="w-40 text-sm">
+                {priorityLabels[rule.priority]} → {priorityLabels[rule.escalate_to]}
+              </span>
+              <span className="text-sm text-muted-foreground">after</span>
+              <Input
+                type="number"
+                min={0.25}
+                step={0.25}
+                value={rule.idle_hours}
+                disabled={!rule.is_active}
+                onChange={(e) => updateEscalationRule(rule.priority, { idle_hours: Number(e.target.value) })}
+                className="w-28"
+              />
+              <span className="text-sm text-muted-foreground">idle hours</span>
+            </div>
+          ))}
+          <Button onClick={handleSaveEscalationRules}>Save Escalation Rules</Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Business Hours</CardTitle>
+          <CardDescription>The SLA clock only runs during these hours</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {businessDays.map((day) => (
+            <div key={day.weekday} className="flex items-center gap-3">
+              <Switch
+                checked={day.open}
+                onCheckedChange={(open) => setBusinessDays(businessDays.map(d => d.weekday === day.weekday ? { ...d, open } : d))}
+              />
+              <span className="w-24 text-sm">{WEEKDAYS[day.weekday]}</span>
+              <Input
+                type="time"
+                value={day.opens_at}
+                disabled={!day.open}
+                onChange={(e) => setBusinessDays(businessDays.map(d => d.weekday === day.weekday ? { ...d, opens_at: e.target.value } : d))}
+                className="w-28"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="time"
+                value={day.closes_at}
+                disabled={!day.open}
+                onChange={(e) => setBusinessDays(businessDays.map(d => d.weekday === day.weekday ? { ...d, closes_at: e.target.value } : d))}
+                className="w-28"
+              />
+            </div>
+          ))}
+          <Button onClick={handleSaveBusinessHours}>Save Business Hours</Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Holidays</CardTitle>
+          <CardDescription>Days excluded from SLA calculations</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAddHoliday} className="flex gap-2">
+            <Input
+              type="date"
+              value={newHoliday.holiday_date}
+              onChange={(e) => setNewHoliday({ ...newHoliday, holiday_date: e.target.value })}
+              required
+              className="w-40"
+            />
+            <Input
+              placeholder="Holiday name"
+              value={newHoliday.name}
+              onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+              required
+            />
+            <Button type="submit">Add</Button>
+          </form>
+          {holidays.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No holidays configured</p>
+          ) : (
+            <div className="space-y-2">
+              {holidays.map((holiday) => (
+                <div key={holiday.holiday_date} className="flex items-center justify-between p-3 border border-border rounded-md">
+                  <div>
+                    <p className="font-medium">{holiday.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(`${holiday.holiday_date}T00:00:00`).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteHoliday(holiday.holiday_date)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
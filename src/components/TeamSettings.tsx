@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CATEGORIES, ComplaintCategory } from "@/lib/complaints";
+import { Trash2, X } from "lucide-react";
+
+type Team = {
+  id: string;
+  name: string;
+  description: string | null;
+  members: string[];
+};
+
+type StaffMember = {
+  id: string;
+  full_name: string;
+};
+
+interface TeamSettingsProps {
+  staffMembers: StaffMember[];
+}
+
+export const TeamSettings = ({ staffMembers }: TeamSettingsProps) => {
+  const { toast } = useToast();
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [categoryOwners, setCategoryOwners] = useState<Map<ComplaintCategory, string>>(new Map());
+  const [newTeam, setNewTeam] = useState({ name: "", description: "" });
+
+  useEffect(() => {
+    fetchTeams();
+  }, []);
+
+  const showError = (error: { message: string }) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const fetchTeams = async () => {
+    try {
+      const { data: teamData, error: teamError } = await supabase
+        .from("teams")
+        .select("id, name, description")
+        .order("name", { ascending: true });
+
+      if (teamError) throw teamError;
+
+      const { data: memberData, error: memberError } = await supabase
+        .from("team_members")
+        .select("team_id, user_id");
+
+      if (memberError) throw memberError;
+
+      setTeams((teamData || []).map(team => ({
+        ...team,
+        members: memberData?.filter(m => m.team_id === team.id).map(m => m.user_id) || [],
+      })));
+
+      const { data: categoryData, error: categoryError } = await supabase
+        .from("team_categories")
+        .select("category, team_id");
+
+      if (categoryError) throw categoryError;
+      setCategoryOwners(new Map(categoryData?.map(c => [c.category, c.team_id]) || []));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase.from("teams").insert({
+        name: newTeam.name,
+        description: newTeam.description || null,
+      });
+
+      if (error) throw error;
+
+      setNewTeam({ name: "", description: "" });
+      fetchTeams();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteTeam = async (teamId: string) => {
+    try {
+      const { error } = await supabase.from("teams").delete().eq("id", teamId);
+      if (error) throw error;
+
+      fetchTeams();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleAddMember = async (teamId: string, userId: string) => {
+    try {
+      const { error } = await supabase.from("team_members").insert({ team_id: teamId, user_id: userId });
+      if (error) throw error;
+
+      fetchTeams();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemoveMember = async (teamId: string, userId: string) => {
+    try {
+      const { error } = await supabase
+        .from("team_members")
+        .delete()
+        .eq("team_id", teamId)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+      fetchTeams();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSetCategoryOwner = async (category: ComplaintCategory, teamId: string) => {
+    try {
+      const { error } = teamId === "none"
+        ? await supabase.from("team_categories").delete().eq("category", category)
+        : await supabase.from("team_categories").upsert({ category, team_id: teamId });
+
+      if (error) throw error;
+      fetchTeams();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const staffName = (id: string) => staffMembers.find(s => s.id === id)?.full_name || "Unknown";
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <Card>
+        <CardHeader>
+          <CardTitle>Category Ownership</CardTitle>
+          <CardDescription>Members of the owning team see these complaints in their team queue</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {CATEGORIES.map((category) => (
+            <div key={category} className="flex items-center justify-between gap-3">
+              <span className="text-sm capitalize">{category}</span>
+              <Select
+                value={categoryOwners.get(category) ?? "none"}
+                onValueChange={(value) => handleSetCategoryOwner(category, value)}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No team</SelectItem>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>Teams</CardTitle>
+          <CardDescription>Group staff into departments that share a complaint queue</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleCreateTeam} className="flex gap-2">
+            <Input
+              placeholder="Team name"
+              value={newTeam.name}
+              onChange={(e) => setNewTeam({ ...newTeam, name: e.target.value })}
+              required
+              className="w-48"
+            />
+            <Input
+              placeholder="Description (optional)"
+              value={newTeam.description}
+              onChange={(e) => setNewTeam({ ...newTeam, description: e.target.value })}
+            />
+            <Button type="submit">Create Team</Button>
+          </form>
+
+          {teams.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No teams yet</p>
+          ) : (
+            <div className="space-y-3">
+              {teams.map((team) => {
+                const ownedCategories = CATEGORIES.filter(c => categoryOwners.get(c) === team.id);
+                const availableStaff = staffMembers.filter(s => !team.members.includes(s.id));
+                return (
+                  <div key={team.id} className="p-4 border border-border rounded-md space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{team.name}</p>
+                        {team.description && <p className="text-sm text-muted-foreground">{team.description}</p>}
+                        <p className="text-sm text-muted-foreground capitalize mt-1">
+                          {ownedCategories.length > 0 ? ownedCategories.join(", ") : "Owns no categories"}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteTeam(team.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {team.members.length === 0 && (
+                        <span className="text-sm text-muted-foreground">No members</span>
+                      )}
+                      {team.members.map((memberId) => (
+                        <Badge key={memberId} variant="secondary" className="gap-1">
+                          {staffName(memberId)}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMember(team.id, memberId)}
+                            className="hover:text-destructive"
+                          >
+                            <X className="h-3 w-3" />
+                            <span className="sr-only">Remove</span>
+                          </button>
+                        </Badge>
+                      ))}
+                      {availableStaff.length > 0 && (
+                        <Select value="" onValueChange={(value) => handleAddMember(team.id, value)}>
+                          <SelectTrigger className="w-[180px] h-8">
+                            <SelectValue placeholder="Add member..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {availableStaff.map((staff) => (
+                              <SelectItem key={staff.id} value={staff.id}>
+                                {staff.full_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
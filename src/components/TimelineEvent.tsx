@@ -0,0 +1,68 @@
+import { ArrowRightLeft, FilePlus, Flag, Pencil, RefreshCw, UserMinus, UserPlus } from "lucide-react";
+import { ComplaintPriority, ComplaintStatus, priorityLabels, statusConfig } from "@/lib/complaints";
+
+export type ComplaintEvent = {
+  id: string;
+  event_type: "created" | "status_changed" | "priority_changed" | "assigned" | "reassigned" | "unassigned" | "edited";
+  field: string | null;
+  old_value: string | null;
+  new_value: string | null;
+  note: string | null;
+  created_at: string;
+  actor_name: string | null;
+  old_label: string | null;
+  new_label: string | null;
+};
+
+interface TimelineEventProps {
+  event: ComplaintEvent;
+}
+
+const eventIcons = {
+  created: FilePlus,
+  status_changed: RefreshCw,
+  priority_changed: Flag,
+  assigned: UserPlus,
+  reassigned: ArrowRightLeft,
+  unassigned: UserMinus,
+  edited: Pencil,
+};
+
+export const TimelineEvent = ({ event }: TimelineEventProps) => {
+  const actor = event.actor_name || "System";
+  const Icon = eventIcons[event.event_type];
+
+  const getDescription = () => {
+    switch (event.event_type) {
+      case "created":
+        return `${actor} submitted the complaint`;
+      case "status_changed":
+        return `${actor} changed the status from ${statusConfig[event.old_value as ComplaintStatus]?.label ?? event.old_value} to ${statusConfig[event.new_value as ComplaintStatus]?.label ?? event.new_value}`;
+      case "priority_changed":
+        return `${actor} changed the priority from ${priorityLabels[event.old_value as ComplaintPriority]} to ${priorityLabels[event.new_value as ComplaintPriority]}`;
+      case "assigned":
+        return `${actor} assigned the complaint to ${event.new_label || "Unknown"}`;
+      case "reassigned":
+        return `${actor} reassigned the complaint from ${event.old_label || "Unknown"} to ${event.new_label || "Unknown"}`;
+      case "unassigned":
+        return `${actor} removed ${event.old_label || "Unknown"} from the complaint`;
+      case "edited":
+        return event.field === "description"
+          ? `${actor} edited the description`
+          : `${actor} changed the ${event.field} from "${event.old_value}" to "${event.new_value}"`;
+      default:
+        return actor;
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-2 pl-4 text-xs text-muted-foreground">
+      <Icon className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+      <div className="flex-1">
+        <span>{getDescription()}</span>
+        {event.note && <p className="italic">{event.note}</p>}
+      </div>
+      <span>{new Date(event.created_at).toLocaleString()}</span>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { invokeFunction } from "@/lib/functions";
+import { IMPORT_COLUMNS, ImportResult, ImportRow, parseUserCsv } from "@/lib/provisioning";
+import { Upload } from "lucide-react";
+
+interface UserImportProps {
+  onImported: () => void;
+}
+
+const statusLabels: Record<ImportResult["status"], string> = {
+  ready: "Ready",
+  created: "Invited",
+  error: "Error",
+};
+
+export const UserImport = ({ onImported }: UserImportProps) => {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [imported, setImported] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [fileKey, setFileKey] = useState(0);
+
+  // Every import is validated server-side first; nothing is created until the admin confirms
+  const provision = async (importRows: ImportRow[], dryRun: boolean) => {
+    const { results } = await invokeFunction<{ results: ImportResult[] }>("provision-users", {
+      rows: importRows,
+      dry_run: dryRun,
+      redirect_to: `${window.location.origin}/auth`,
+    });
+
+    return results;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setWorking(true);
+    setImported(false);
+
+    try {
+      const parsed = parseUserCsv(await file.text());
+      setRows(parsed);
+      setResults(await provision(parsed, true));
+    } catch (error: any) {
+      setRows([]);
+      setResults([]);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setWorking(true);
+
+    try {
+      const outcome = await provision(rows, false);
+      const created = outcome.filter(r => r.status === "created").length;
+
+      setResults(outcome);
+      setImported(true);
+
+      toast({
+        title: "Import finished",
+        description: `${created} user${created !== 1 ? "s" : ""} invited`,
+      });
+
+      onImported();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReset = () => {
+    setRows([]);
+    setResults([]);
+    setImported(false);
+    setFileKey(key => key + 1);
+  };
+
+  const readyCount = results.filter(r => r.status === "ready").length;
+  const errorCount = results.filter(r => r.status === "error").length;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Import Users</CardTitle>
+        <CardDescription>
+          Upload a CSV with the columns {IMPORT_COLUMNS.join(", ")}. Role is student, staff or admin; batch is optional.
+          Each new user gets an invitation email to set their password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            key={fileKey}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFile}
+            disabled={working}
+            className="max-w-sm"
+          />
+          {results.length > 0 && !imported && (
+            <Button onClick={handleImport} disabled={working || readyCount === 0}>
+              <Upload className="h-4 w-4 mr-2" />
+              {working ? "Importing..." : `Import ${readyCount} user${readyCount !== 1 ? "s" : ""}`}
+            </Button>
+          )}
+          {results.length > 0 && (
+            <Button variant="ghost" onClick={handleReset} disabled={working}>
+              {imported ? "Import another file" : "Cancel"}
+            </Button>
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {imported
+                ? `${results.filter(r => r.status === "created").length} invited, ${errorCount} not imported`
+                : `Dry run: ${readyCount} ready to import, ${errorCount} with problems (rows with problems are skipped)`}
+            </p>
+            <div className="max-h-96 overflow-y-auto rounded-md border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Full name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => {
+                    const row = rows[result.row - 1];
+                    return (
+                      <TableRow key={result.row}>
+                        <TableCell>{result.row}</TableCell>
+                        <TableCell>{row?.full_name}</TableCell>
+                        <TableCell>{row?.email}</TableCell>
+                        <TableCell className="capitalize">{row?.role || "student"}</TableCell>
+                        <TableCell>{row?.batch || "–"}</TableCell>
+                        <TableCell>
+                          <Badge variant={result.status === "error" ? "destructive" : result.status === "created" ? "default" : "secondary"}>
+                            {statusLabels[result.status]}
+                          </Badge>
+                          {result.errors.length > 0 && (
+                            <p className="mt-1 text-xs text-destructive">{result.errors.join("; ")}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,17 +1,65 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
 import { useNavigate } from "react-router-dom";
 
-type UserRole = "student" | "staff" | "admin";
+export type UserRole = "student" | "staff" | "admin";
+
+export type Permission = Database["public"]["Enums"]["app_permission"];
+
+// Most privileged first; the default active role for users holding several
+const ROLE_PRECEDENCE: UserRole[] = ["admin", "staff", "student"];
+
+const ACTIVE_ROLE_KEY = "bcms-active-role";
+
+// Roles that must sign in with an authenticator app as well as a password
+const MFA_ROLES: UserRole[] = ["staff", "admin"];
+
+type AssuranceLevel = { current: string | null; next: string | null };
+
+/** What the session still needs before privileged pages open: set up an authenticator, or enter a code */
+export type MfaStep = "enroll" | "verify" | null;
+
+/** Sign-ups outside the allowlist stay pending, with no role, until an admin reviews them */
+export type RegistrationStatus = "pending" | "approved" | "rejected";
+
+export type Profile = {
+  full_name: string;
+  avatar_path: string | null;
+};
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  /** The role the user is currently acting as */
   userRole: UserRole | null;
+  /** Every role the user holds */
+  userRoles: UserRole[];
+  profile: Profile | null;
+  /** Re-read the profile after editing it */
+  refreshProfile: () => Promise<void>;
   loading: boolean;
-  signUp: (email: string, password: string, fullName: string) => Promise<{ error: any }>;
+  switchRole: (role: UserRole) => void;
+  can: (permission: Permission) => boolean;
+  mfaStep: MfaStep;
+  /** Null until fetched with the roles */
+  registrationStatus: RegistrationStatus | null;
+  /** Set when the roles couldn't be loaded, so guards can stop waiting for them */
+  rolesError: string | null;
+  /** Fetch the roles again after a failed load */
+  retryRoles: () => Promise<void>;
+  refreshMfa: () => Promise<void>;
+  /** Pass the token from an invitation link to sign up with the invited role */
+  signUp: (email: string, password: string, fullName: string, inviteToken?: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
+  /** Emails a magic link and a one-time code; only for existing accounts */
+  sendSignInCode: (email: string) => Promise<{ error: any }>;
+  verifySignInCode: (email: string, code: string) => Promise<{ error: any }>;
+  resendVerification: (email: string) => Promise<{ error: any }>;
+  /** Emails a link to /reset-password */
+  requestPasswordReset: (email: string) => Promise<{ error: any }>;
+  updatePassword: (password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
 }
 
@@ -21,6 +69,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [userRole, setUserRole] = useState<UserRole | null>(null);
+  const [userRoles, setUserRoles] = useState<UserRole[]>([]);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [permissions, setPermissions] = useState<Partial<Record<UserRole, Permission[]>>>({});
+  const [assurance, setAssurance] = useState<AssuranceLevel>({ current: null, next: null });
+  const [registrationStatus, setRegistrationStatus] = useState<RegistrationStatus | null>(null);
+  const [rolesError, setRolesError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
 
@@ -34,10 +88,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         // Fetch user role when session changes
         if (session?.user) {
           setTimeout(() => {
-            fetchUserRole(session.user.id);
+            fetchUserRoles(session.user.id);
+            fetchProfile(session.user.id);
           }, 0);
         } else {
           setUserRole(null);
+          setUserRoles([]);
+          setProfile(null);
+          setPermissions({});
+          setAssurance({ current: null, next: null });
+          setRegistrationStatus(null);
+          setRolesError(null);
         }
       }
     );
@@ -48,7 +109,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        fetchUserRole(session.user.id).finally(() => setLoading(false));
+        fetchProfile(session.user.id);
+        fetchUserRoles(session.user.id).finally(() => setLoading(false));
       } else {
         setLoading(false);
       }
@@ -57,22 +119,107 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const fetchUserRole = async (userId: string) => {
+  const fetchUserRoles = async (userId: string) => {
+    setRolesError(null);
     try {
       const { data, error } = await supabase
         .from("user_roles")
         .select("role")
-        .eq("user_id", userId)
-        .single();
+        .eq("user_id", userId);
 
       if (error) throw error;
-      setUserRole(data.role as UserRole);
-    } catch (error) {
-      console.error("Error fetching user role:", error);
+
+      const roles = ROLE_PRECEDENCE.filter(role => data.some(r => r.role === role));
+
+      const { data: grants, error: grantsError } = await supabase
+        .from("role_permissions")
+        .select("role, permission")
+        .in("role", roles);
+
+      if (grantsError) throw grantsError;
+
+      const grouped: Partial<Record<UserRole, Permission[]>> = {};
+      grants?.forEach(({ role, permission }) => {
+        grouped[role] = [...(grouped[role] || []), permission];
+      });
+
+      // Only sign-ups that matched no allowlist entry have a registration row
+      const { data: registration, error: registrationError } = await supabase
+        .from("registrations")
+        .select("status")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (registrationError) throw registrationError;
+
+      // Read before the role is set, so guards never see a role without its MFA state
+      await refreshMfa();
+
+      // Keep the role picked last time if the user still holds it
+      const stored = localStorage.getItem(ACTIVE_ROLE_KEY) as UserRole | null;
+      setUserRoles(roles);
+      setPermissions(grouped);
+      const status = (registration?.status as RegistrationStatus) ?? "approved";
+      setRegistrationStatus(status);
+      setUserRole(stored && roles.includes(stored) ? stored : roles[0] ?? null);
+
+      if (roles.length === 0 && status === "approved") {
+        setRolesError("Your account doesn't have a role yet. Ask an administrator to assign one.");
+      }
+    } catch (error: any) {
+      console.error("Error fetching user roles:", error);
+      setRolesError(error.message ?? "Couldn't load your account details");
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string) => {
+  const retryRoles = async () => {
+    if (user) await fetchUserRoles(user.id);
+  };
+
+  const fetchProfile = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("full_name, avatar_path")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching profile:", error);
+      return;
+    }
+    setProfile(data);
+  };
+
+  const refreshProfile = async () => {
+    if (user) await fetchProfile(user.id);
+  };
+
+  const refreshMfa = async () => {
+    const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+
+    if (error) {
+      console.error("Error fetching MFA level:", error);
+      return;
+    }
+    setAssurance({ current: data.currentLevel, next: data.nextLevel });
+  };
+
+  // Holding a privileged role is enough to need MFA, whichever role is active
+  const mfaStep: MfaStep = userRoles.some(role => MFA_ROLES.includes(role)) && assurance.current !== "aal2"
+    ? (assurance.next === "aal2" ? "verify" : "enroll")
+    : null;
+
+  const switchRole = (role: UserRole) => {
+    if (!userRoles.includes(role)) return;
+    localStorage.setItem(ACTIVE_ROLE_KEY, role);
+    setUserRole(role);
+  };
+
+  // Permissions follow the active role, so switching changes what the UI offers
+  const can = (permission: Permission) =>
+    !!userRole && !!permissions[userRole]?.includes(permission);
+
+  const signUp = async (email: string, password: string, fullName: string, inviteToken?: string) => {
     try {
       const redirectUrl = `${window.location.origin}/`;
       
@@ -83,6 +230,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           emailRedirectTo: redirectUrl,
           data: {
             full_name: fullName,
+            invite_token: inviteToken,
           },
         },
       });
@@ -106,13 +254,81 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const sendSignInCode = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: `${window.location.origin}/`,
+          shouldCreateUser: false,
+        },
+      });
+
+      return { error };
+    } catch (error: any) {
+      return { error };
+    }
+  };
+
+  const verifySignInCode = async (email: string, code: string) => {
+    try {
+      const { error } = await supabase.auth.verifyOtp({
+        email,
+        token: code,
+        type: "email",
+      });
+
+      return { error };
+    } catch (error: any) {
+      return { error };
+    }
+  };
+
+  const resendVerification = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resend({
+        type: "signup",
+        email,
+        options: {
+          emailRedirectTo: `${window.location.origin}/`,
+        },
+      });
+
+      return { error };
+    } catch (error: any) {
+      return { error };
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+
+      return { error };
+    } catch (error: any) {
+      return { error };
+    }
+  };
+
+  const updatePassword = async (password: string) => {
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+
+      return { error };
+    } catch (error: any) {
+      return { error };
+    }
+  };
+
   const signOut = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, userRole, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, userRole, userRoles, profile, refreshProfile, loading, switchRole, can, mfaStep, registrationStatus, rolesError, retryRoles, refreshMfa, signUp, signIn, sendSignInCode, verifySignInCode, resendVerification, requestPasswordReset, updatePassword, signOut }}>
       {children}
     </AuthContext.Provider>
   );
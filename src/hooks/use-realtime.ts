@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type TableName = keyof Database["public"]["Tables"];
+
+export type RealtimeSubscription = {
+  table: TableName;
+  filter?: string;
+  onChange: () => void;
+};
+
+/**
+ * Subscribes to Postgres changes on the given tables and calls the matching
+ * handler whenever a row is inserted, updated or deleted. Handlers may change
+ * between renders without re-subscribing; the channel is only recreated when
+ * the channel name, tables or filters change.
+ */
+export function useRealtime(channelName: string, subscriptions: RealtimeSubscription[], enabled = true) {
+  const subscriptionsRef = useRef(subscriptions);
+  subscriptionsRef.current = subscriptions;
+
+  const key = subscriptions.map(s => `${s.table}:${s.filter ?? "*"}`).join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase.channel(channelName);
+
+    subscriptionsRef.current.forEach(({ table, filter }, index) => {
+      channel.on(
+        "postgres_changes",
+        { event: "*", schema: "public", table, ...(filter ? { filter } : {}) },
+        () => subscriptionsRef.current[index]?.onChange()
+      );
+    });
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, key, enabled]);
+}
@@ -14,94 +14,933 @@ export type Database = {
   }
   public: {
     Tables: {
+      assignment_rules: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_at: string
+          id: string
+          is_active: boolean
+          keywords: string[] | null
+          name: string
+          position: number
+          priority: Database["public"]["Enums"]["complaint_priority"] | null
+          target_pool_id: string | null
+          target_staff_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          keywords?: string[] | null
+          name: string
+          position?: number
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          target_pool_id?: string | null
+          target_staff_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"] | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          keywords?: string[] | null
+          name?: string
+          position?: number
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          target_pool_id?: string | null
+          target_staff_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_rules_target_pool_id_fkey"
+            columns: ["target_pool_id"]
+            isOneToOne: false
+            referencedRelation: "staff_pools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      attachments: {
+        Row: {
+          comment_id: string | null
+          complaint_id: string
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+        }
+        Insert: {
+          comment_id?: string | null
+          complaint_id: string
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string
+        }
+        Update: {
+          comment_id?: string | null
+          complaint_id?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_operation_items: {
+        Row: {
+          complaint_id: string
+          error: string | null
+          id: string
+          operation_id: string
+          previous_assigned_to: string | null
+          previous_priority: Database["public"]["Enums"]["complaint_priority"] | null
+          previous_status: Database["public"]["Enums"]["complaint_status"] | null
+          previous_status_reason: string | null
+          previous_tags: string[] | null
+          succeeded: boolean
+        }
+        Insert: {
+          complaint_id: string
+          error?: string | null
+          id?: string
+          operation_id: string
+          previous_assigned_to?: string | null
+          previous_priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          previous_status?: Database["public"]["Enums"]["complaint_status"] | null
+          previous_status_reason?: string | null
+          previous_tags?: string[] | null
+          succeeded: boolean
+        }
+        Update: {
+          complaint_id?: string
+          error?: string | null
+          id?: string
+          operation_id?: string
+          previous_assigned_to?: string | null
+          previous_priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          previous_status?: Database["public"]["Enums"]["complaint_status"] | null
+          previous_status_reason?: string | null
+          previous_tags?: string[] | null
+          succeeded?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_operation_items_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_operation_items_operation_id_fkey"
+            columns: ["operation_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_operations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_operations: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          reason: string | null
+          undone_at: string | null
+          value: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          reason?: string | null
+          undone_at?: string | null
+          value: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          reason?: string | null
+          undone_at?: string | null
+          value?: string
+        }
+        Relationships: []
+      }
+      business_hours: {
+        Row: {
+          closes_at: string
+          opens_at: string
+          weekday: number
+        }
+        Insert: {
+          closes_at: string
+          opens_at: string
+          weekday: number
+        }
+        Update: {
+          closes_at?: string
+          opens_at?: string
+          weekday?: number
+        }
+        Relationships: []
+      }
       comments: {
         Row: {
-          complaint_id: string
+          complaint_id: string
+          created_at: string
+          id: string
+          is_internal: boolean
+          message: string
+          user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          id?: string
+          is_internal?: boolean
+          message: string
+          user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          is_internal?: boolean
+          message?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_events: {
+        Row: {
+          actor_id: string | null
+          complaint_id: string
+          created_at: string
+          event_type: Database["public"]["Enums"]["complaint_event_type"]
+          field: string | null
+          id: string
+          new_value: string | null
+          note: string | null
+          old_value: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          complaint_id: string
+          created_at?: string
+          event_type: Database["public"]["Enums"]["complaint_event_type"]
+          field?: string | null
+          id?: string
+          new_value?: string | null
+          note?: string | null
+          old_value?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          complaint_id?: string
+          created_at?: string
+          event_type?: Database["public"]["Enums"]["complaint_event_type"]
+          field?: string | null
+          id?: string
+          new_value?: string | null
+          note?: string | null
+          old_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_events_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_feedback: {
+        Row: {
+          comment: string | null
+          complaint_id: string
+          created_at: string
+          id: string
+          outcome: Database["public"]["Enums"]["feedback_outcome"]
+          rating: number | null
+          staff_id: string | null
+          student_id: string
+        }
+        Insert: {
+          comment?: string | null
+          complaint_id: string
+          created_at?: string
+          id?: string
+          outcome: Database["public"]["Enums"]["feedback_outcome"]
+          rating?: number | null
+          staff_id?: string | null
+          student_id: string
+        }
+        Update: {
+          comment?: string | null
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          outcome?: Database["public"]["Enums"]["feedback_outcome"]
+          rating?: number | null
+          staff_id?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_feedback_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_reads: {
+        Row: {
+          complaint_id: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          last_read_at?: string
+          user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_reads_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_status_transitions: {
+        Row: {
+          allowed_role: Database["public"]["Enums"]["app_role"]
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Insert: {
+          allowed_role: Database["public"]["Enums"]["app_role"]
+          from_status: Database["public"]["Enums"]["complaint_status"]
+          to_status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Update: {
+          allowed_role?: Database["public"]["Enums"]["app_role"]
+          from_status?: Database["public"]["Enums"]["complaint_status"]
+          to_status?: Database["public"]["Enums"]["complaint_status"]
+        }
+        Relationships: []
+      }
+      complaints: {
+        Row: {
+          assigned_to: string | null
+          assignment_reason: string | null
+          assignment_rule_id: string | null
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          description: string
+          escalated_at: string | null
+          first_responded_at: string | null
+          first_response_breached: boolean
+          first_response_due_at: string | null
+          id: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          requested_priority: Database["public"]["Enums"]["complaint_priority"] | null
+          resolution_breached: boolean
+          resolution_due_at: string | null
+          resolved_at: string | null
+          search_vector: unknown | null
+          status: Database["public"]["Enums"]["complaint_status"]
+          status_reason: string | null
+          student_id: string
+          tags: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          assignment_reason?: string | null
+          assignment_rule_id?: string | null
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          description: string
+          escalated_at?: string | null
+          first_responded_at?: string | null
+          first_response_breached?: boolean
+          first_response_due_at?: string | null
+          id?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"]
+          requested_priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          resolution_breached?: boolean
+          resolution_due_at?: string | null
+          resolved_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["complaint_status"]
+          status_reason?: string | null
+          student_id: string
+          tags?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          assignment_reason?: string | null
+          assignment_rule_id?: string | null
+          category?: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          description?: string
+          escalated_at?: string | null
+          first_responded_at?: string | null
+          first_response_breached?: boolean
+          first_response_due_at?: string | null
+          id?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"]
+          requested_priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          resolution_breached?: boolean
+          resolution_due_at?: string | null
+          resolved_at?: string | null
+          search_vector?: unknown | null
+          status?: Database["public"]["Enums"]["complaint_status"]
+          status_reason?: string | null
+          student_id?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaints_assignment_rule_id_fkey"
+            columns: ["assignment_rule_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          complaint_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          complaint_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          complaint_id?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          status?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      holidays: {
+        Row: {
+          created_at: string
+          holiday_date: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          holiday_date: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          holiday_date?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Relationships: []
+      }
+      mfa_backup_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          email: boolean
+          in_app: boolean
+          type: Database["public"]["Enums"]["notification_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email?: boolean
+          in_app?: boolean
+          type: Database["public"]["Enums"]["notification_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          email?: boolean
+          in_app?: boolean
+          type?: Database["public"]["Enums"]["notification_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          complaint_id: string | null
+          created_at: string
+          id: string
+          read_at: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          complaint_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          complaint_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      priority_escalation_rules: {
+        Row: {
+          escalate_to: Database["public"]["Enums"]["complaint_priority"]
+          idle_hours: number
+          is_active: boolean
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          updated_at: string
+        }
+        Insert: {
+          escalate_to: Database["public"]["Enums"]["complaint_priority"]
+          idle_hours: number
+          is_active?: boolean
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          updated_at?: string
+        }
+        Update: {
+          escalate_to?: Database["public"]["Enums"]["complaint_priority"]
+          idle_hours?: number
+          is_active?: boolean
+          priority?: Database["public"]["Enums"]["complaint_priority"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_path: string | null
+          batch: string | null
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_path?: string | null
+          batch?: string | null
+          created_at?: string
+          email: string
+          full_name: string
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_path?: string | null
+          batch?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      registrations: {
+        Row: {
           created_at: string
-          id: string
-          message: string
+          email: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
           user_id: string
         }
         Insert: {
-          complaint_id: string
           created_at?: string
-          id?: string
-          message: string
+          email: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
           user_id: string
         }
         Update: {
-          complaint_id?: string
           created_at?: string
+          email?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      signup_allowlist: {
+        Row: {
+          batch: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          value: string
+        }
+        Insert: {
+          batch?: string | null
+          created_at?: string
+          created_by?: string | null
           id?: string
-          message?: string
+          kind: string
+          value: string
+        }
+        Update: {
+          batch?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          kind?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          first_response_hours: number
+          id: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours: number
+          updated_at: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          first_response_hours: number
+          id?: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours: number
+          updated_at?: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"]
+          created_at?: string
+          first_response_hours?: number
+          id?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      staff_pool_members: {
+        Row: {
+          created_at: string
+          pool_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          pool_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          pool_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "comments_complaint_id_fkey"
-            columns: ["complaint_id"]
+            foreignKeyName: "staff_pool_members_pool_id_fkey"
+            columns: ["pool_id"]
             isOneToOne: false
-            referencedRelation: "complaints"
+            referencedRelation: "staff_pools"
             referencedColumns: ["id"]
           },
         ]
       }
-      complaints: {
+      staff_pools: {
         Row: {
-          assigned_to: string | null
-          category: Database["public"]["Enums"]["complaint_category"]
           created_at: string
-          description: string
           id: string
-          status: Database["public"]["Enums"]["complaint_status"]
-          student_id: string
-          title: string
+          last_assigned_user_id: string | null
+          name: string
+          strategy: Database["public"]["Enums"]["assignment_strategy"]
           updated_at: string
         }
         Insert: {
-          assigned_to?: string | null
-          category: Database["public"]["Enums"]["complaint_category"]
           created_at?: string
-          description: string
           id?: string
-          status?: Database["public"]["Enums"]["complaint_status"]
-          student_id: string
-          title: string
+          last_assigned_user_id?: string | null
+          name: string
+          strategy?: Database["public"]["Enums"]["assignment_strategy"]
           updated_at?: string
         }
         Update: {
-          assigned_to?: string | null
-          category?: Database["public"]["Enums"]["complaint_category"]
           created_at?: string
-          description?: string
           id?: string
-          status?: Database["public"]["Enums"]["complaint_status"]
-          student_id?: string
-          title?: string
+          last_assigned_user_id?: string | null
+          name?: string
+          strategy?: Database["public"]["Enums"]["assignment_strategy"]
           updated_at?: string
         }
         Relationships: []
       }
-      profiles: {
+      team_categories: {
+        Row: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          team_id: string
+        }
+        Insert: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          team_id: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["complaint_category"]
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_categories_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
         Row: {
           created_at: string
-          email: string
-          full_name: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          description: string | null
           id: string
+          name: string
           updated_at: string
         }
         Insert: {
           created_at?: string
-          email: string
-          full_name: string
-          id: string
+          description?: string | null
+          id?: string
+          name: string
           updated_at?: string
         }
         Update: {
           created_at?: string
-          email?: string
-          full_name?: string
+          description?: string | null
           id?: string
+          name?: string
           updated_at?: string
         }
         Relationships: []
@@ -129,13 +968,177 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      complaint_analytics: {
+        Row: {
+          assigned_to: string | null
+          category: Database["public"]["Enums"]["complaint_category"] | null
+          created_on: string | null
+          first_response_breached: boolean | null
+          hours_to_assign: number | null
+          hours_to_resolve: number | null
+          id: string | null
+          priority: Database["public"]["Enums"]["complaint_priority"] | null
+          resolution_breached: boolean | null
+          resolved_on: string | null
+          status: Database["public"]["Enums"]["complaint_status"] | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      add_business_hours: {
+        Args: { _hours: number; _start: string }
+        Returns: string
+      }
+      analytics_buckets: {
+        Args: { _bucket: string; _from: string; _to: string }
+        Returns: {
+          bucket: string
+        }[]
+      }
+      bulk_update_complaints: {
+        Args: {
+          _action: string
+          _complaint_ids: string[]
+          _reason?: string
+          _value: string
+        }
+        Returns: string
+      }
+      can_access_complaint: {
+        Args: { _complaint_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_internal_notes: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      claim_complaint: {
+        Args: { _complaint_id: string }
+        Returns: undefined
+      }
+      claim_email_outbox: {
+        Args: { _limit?: number }
+        Returns: {
+          attempts: number
+          complaint_id: string | null
+          created_at: string
+          data: Json
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          status: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }[]
+      }
+      complaint_analytics_summary: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          median_hours_to_assign: number
+          median_hours_to_resolve: number
+          total: number
+        }[]
+      }
+      complaint_category_breakdown: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          category: Database["public"]["Enums"]["complaint_category"]
+          sla_breached: number
+          sla_met: number
+          total: number
+        }[]
+      }
+      complaint_cycle_times: {
+        Args: { _bucket?: string; _from: string; _to: string }
+        Returns: {
+          bucket: string
+          median_hours_to_assign: number
+          median_hours_to_resolve: number
+        }[]
+      }
+      complaint_last_activity: {
+        Args: { _complaint_id: string }
+        Returns: string
+      }
+      complaint_queue_summary: {
+        Args: never
+        Returns: {
+          overdue: number
+          total: number
+          unassigned: number
+        }[]
+      }
+      complaint_search_vector: {
+        Args: { _description: string; _student_id: string; _title: string }
+        Returns: unknown
+      }
+      complaint_status_distribution: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          status: Database["public"]["Enums"]["complaint_status"]
+          total: number
+        }[]
+      }
+      complaint_volume: {
+        Args: { _bucket?: string; _from: string; _to: string }
+        Returns: {
+          bucket: string
+          resolved: number
+          submitted: number
+        }[]
+      }
+      consume_mfa_backup_code: {
+        Args: { _code: string }
+        Returns: boolean
+      }
+      create_notification: {
+        Args: {
+          _body?: string
+          _complaint_id: string
+          _title: string
+          _type: Database["public"]["Enums"]["notification_type"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      enqueue_email: {
+        Args: {
+          _complaint_id: string
+          _data: Json
+          _type: Database["public"]["Enums"]["notification_type"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      escalate_stale_complaints: {
+        Args: never
+        Returns: undefined
+      }
+      generate_mfa_backup_codes: {
+        Args: never
+        Returns: string[]
+      }
+      get_invitation: {
+        Args: { _token: string }
+        Returns: {
+          email: string
+          expires_at: string
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -143,16 +1146,193 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_aal2: {
+        Args: never
+        Returns: boolean
+      }
+      is_internal_attachment: {
+        Args: { _storage_path: string }
+        Returns: boolean
+      }
+      is_open_status: {
+        Args: { _status: Database["public"]["Enums"]["complaint_status"] }
+        Returns: boolean
+      }
+      is_signup_allowed: {
+        Args: { _email: string }
+        Returns: boolean
+      }
+      is_team_member_for_category: {
+        Args: {
+          _category: Database["public"]["Enums"]["complaint_category"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      mark_complaint_read: {
+        Args: { _complaint_id: string }
+        Returns: undefined
+      }
+      mfa_satisfied: {
+        Args: never
+        Returns: boolean
+      }
+      notify_overdue_complaints: {
+        Args: never
+        Returns: undefined
+      }
+      record_email_attempt: {
+        Args: { _error?: string; _id: string }
+        Returns: undefined
+      }
+      refresh_sla_breaches: {
+        Args: never
+        Returns: undefined
+      }
+      review_registration: {
+        Args: { _approve: boolean; _user_id: string }
+        Returns: undefined
+      }
+      search_complaints: {
+        Args: {
+          _assigned_to?: string
+          _limit?: number
+          _offset?: number
+          _priority?: Database["public"]["Enums"]["complaint_priority"]
+          _query?: string
+          _sort?: string
+          _status?: Database["public"]["Enums"]["complaint_status"]
+          _unassigned?: boolean
+        }
+        Returns: {
+          assigned_to: string
+          assignment_reason: string
+          category: Database["public"]["Enums"]["complaint_category"]
+          created_at: string
+          description: string
+          first_response_breached: boolean
+          first_response_due_at: string
+          first_responded_at: string
+          id: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_breached: boolean
+          resolution_due_at: string
+          resolved_at: string
+          status: Database["public"]["Enums"]["complaint_status"]
+          student_id: string
+          student_name: string
+          title: string
+          tags: string[]
+          total_count: number
+        }[]
+      }
+      set_complaint_status: {
+        Args: {
+          _complaint_id: string
+          _reason?: string
+          _status: Database["public"]["Enums"]["complaint_status"]
+        }
+        Returns: undefined
+      }
+      signup_allowlist_entry: {
+        Args: { _email: string }
+        Returns: {
+          batch: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          kind: string
+          value: string
+        }
+      }
+      sla_timezone: {
+        Args: never
+        Returns: string
+      }
+      submit_resolution_feedback: {
+        Args: {
+          _comment?: string
+          _complaint_id: string
+          _outcome: Database["public"]["Enums"]["feedback_outcome"]
+          _rating?: number
+        }
+        Returns: undefined
+      }
+      to_prefix_tsquery: {
+        Args: { _query: string }
+        Returns: unknown
+      }
+      undo_bulk_operation: {
+        Args: { _operation_id: string }
+        Returns: {
+          complaint_id: string
+          error: string
+        }[]
+      }
+      unread_comment_counts: {
+        Args: { _complaint_ids: string[] }
+        Returns: {
+          complaint_id: string
+          unread: number
+        }[]
+      }
+      wants_notification: {
+        Args: {
+          _channel: string
+          _type: Database["public"]["Enums"]["notification_type"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
+      app_permission:
+        | "submit_complaints"
+        | "claim_complaints"
+        | "change_status"
+        | "view_internal_notes"
+        | "view_all_complaints"
+        | "assign_complaints"
+        | "view_analytics"
+        | "manage_users"
+        | "manage_settings"
       app_role: "student" | "staff" | "admin"
+      assignment_strategy: "round_robin" | "least_open_workload"
       complaint_category:
         | "academic"
         | "infrastructure"
         | "administrative"
         | "technical"
         | "other"
-      complaint_status: "pending" | "in_progress" | "resolved"
+      complaint_event_type:
+        | "created"
+        | "status_changed"
+        | "assigned"
+        | "reassigned"
+        | "unassigned"
+        | "edited"
+        | "priority_changed"
+      complaint_priority: "low" | "normal" | "high" | "critical"
+      complaint_status:
+        | "pending"
+        | "in_progress"
+        | "resolved"
+        | "needs_info"
+        | "on_hold"
+        | "rejected"
+        | "reopened"
+        | "closed"
+        | "withdrawn"
+      feedback_outcome: "confirmed" | "disputed"
+      notification_type:
+        | "assigned"
+        | "status_changed"
+        | "new_comment"
+        | "overdue"
+        | "escalated"
+        | "resolution_disputed"
+        | "complaint_created"
+        | "resolved"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -280,7 +1460,19 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      app_permission: [
+        "submit_complaints",
+        "claim_complaints",
+        "change_status",
+        "view_internal_notes",
+        "view_all_complaints",
+        "assign_complaints",
+        "view_analytics",
+        "manage_users",
+        "manage_settings",
+      ],
       app_role: ["student", "staff", "admin"],
+      assignment_strategy: ["round_robin", "least_open_workload"],
       complaint_category: [
         "academic",
         "infrastructure",
@@ -288,7 +1480,38 @@ export const Constants = {
         "technical",
         "other",
       ],
-      complaint_status: ["pending", "in_progress", "resolved"],
+      complaint_event_type: [
+        "created",
+        "status_changed",
+        "assigned",
+        "reassigned",
+        "unassigned",
+        "edited",
+        "priority_changed",
+      ],
+      complaint_priority: ["low", "normal", "high", "critical"],
+      complaint_status: [
+        "pending",
+        "in_progress",
+        "resolved",
+        "needs_info",
+        "on_hold",
+        "rejected",
+        "reopened",
+        "closed",
+        "withdrawn",
+      ],
+      feedback_outcome: ["confirmed", "disputed"],
+      notification_type: [
+        "assigned",
+        "status_changed",
+        "new_comment",
+        "overdue",
+        "escalated",
+        "resolution_disputed",
+        "complaint_created",
+        "resolved",
+      ],
     },
   },
 } as const
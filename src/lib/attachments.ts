@@ -0,0 +1,79 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const ATTACHMENTS_BUCKET = "complaint-attachments";
+
+// Keep in sync with the bucket limits in the storage migration
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 5;
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+export type Attachment = {
+  id: string;
+  complaint_id: string;
+  comment_id: string | null;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: string;
+};
+
+export const isImageAttachment = (mimeType: string) => mimeType.startsWith("image/");
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns an error message for files that would be rejected by the bucket
+export const validateAttachment = (file: File) => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+};
+
+export const uploadAttachments = async (
+  files: File[],
+  { complaintId, commentId, userId }: { complaintId: string; commentId?: string; userId: string }
+) => {
+  for (const file of files) {
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+    const storagePath = `${complaintId}/${crypto.randomUUID()}-${safeName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(storagePath, file, { contentType: file.type });
+
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.from("attachments").insert({
+      complaint_id: complaintId,
+      comment_id: commentId ?? null,
+      uploaded_by: userId,
+      storage_path: storagePath,
+      file_name: file.name,
+      mime_type: file.type,
+      size_bytes: file.size,
+    });
+
+    if (error) {
+      // Without its row nothing points at the file, so don't leave it in the bucket
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import { formatFileSize } from "@/lib/attachments";
+
+export const AVATARS_BUCKET = "avatars";
+
+// Keep in sync with the bucket limits in the avatars migration
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+export const ALLOWED_AVATAR_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// The bucket is public, so the URL can be built without a request
+export const avatarUrl = (path: string | null) =>
+  path ? supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl : undefined;
+
+// Shown in the avatar fallback while there's no image
+export const initials = (name: string | null | undefined) =>
+  (name || "?")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join("");
+
+// Returns an error message for images that would be rejected by the bucket
+export const validateAvatar = (file: File) => {
+  if (!ALLOWED_AVATAR_TYPES.includes(file.type)) {
+    return "Choose a PNG, JPEG, GIF or WebP image";
+  }
+  if (file.size > MAX_AVATAR_SIZE) {
+    return `The image is larger than ${formatFileSize(MAX_AVATAR_SIZE)}`;
+  }
+  return null;
+};
+
+/**
+ * Uploads a new avatar and points the profile at it, then removes the previous
+ * image. Each upload gets a fresh path so browsers never show a cached old one.
+ */
+export const replaceAvatar = async (userId: string, file: File | null, previousPath: string | null) => {
+  let path: string | null = null;
+
+  if (file) {
+    const extension = file.type.split("/")[1];
+    path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(AVATARS_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (uploadError) throw uploadError;
+  }
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ avatar_path: path })
+    .eq("id", userId);
+
+  if (error) throw error;
+
+  if (previousPath) {
+    // The profile no longer uses it, so a failed cleanup isn't worth surfacing
+    const { error: removeError } = await supabase.storage.from(AVATARS_BUCKET).remove([previousPath]);
+    if (removeError) console.error("Error removing old avatar:", removeError);
+  }
+
+  return path;
+};
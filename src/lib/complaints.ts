@@ -0,0 +1,97 @@
+export type ComplaintPriority = "low" | "normal" | "high" | "critical";
+
+// Highest urgency first
+export const PRIORITIES: ComplaintPriority[] = ["critical", "high", "normal", "low"];
+
+export const priorityLabels: Record<ComplaintPriority, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  critical: "Critical",
+};
+
+export const comparePriority = (a: ComplaintPriority, b: ComplaintPriority) =>
+  PRIORITIES.indexOf(a) - PRIORITIES.indexOf(b);
+
+export type ComplaintCategory = "academic" | "infrastructure" | "administrative" | "technical" | "other";
+
+export const CATEGORIES: ComplaintCategory[] = ["academic", "infrastructure", "administrative", "technical", "other"];
+
+export type ComplaintStatus =
+  | "pending"
+  | "in_progress"
+  | "needs_info"
+  | "on_hold"
+  | "resolved"
+  | "reopened"
+  | "rejected"
+  | "closed"
+  | "withdrawn";
+
+// Lifecycle order, used for filters and charts
+export const STATUSES: ComplaintStatus[] = [
+  "pending",
+  "in_progress",
+  "needs_info",
+  "on_hold",
+  "reopened",
+  "resolved",
+  "closed",
+  "rejected",
+  "withdrawn",
+];
+
+export const statusConfig: Record<ComplaintStatus, { label: string; className: string; color: string }> = {
+  pending: {
+    label: "Pending",
+    className: "bg-pending text-pending-foreground hover:bg-pending/90 border-pending",
+    color: "hsl(var(--pending))",
+  },
+  in_progress: {
+    label: "In Progress",
+    className: "bg-in-progress text-in-progress-foreground hover:bg-in-progress/90 border-in-progress",
+    color: "hsl(var(--in-progress))",
+  },
+  needs_info: {
+    label: "Needs Info",
+    className: "bg-needs-info text-needs-info-foreground hover:bg-needs-info/90 border-needs-info",
+    color: "hsl(var(--needs-info))",
+  },
+  on_hold: {
+    label: "On Hold",
+    className: "bg-on-hold text-on-hold-foreground hover:bg-on-hold/90 border-on-hold",
+    color: "hsl(var(--on-hold))",
+  },
+  resolved: {
+    label: "Resolved",
+    className: "bg-resolved text-resolved-foreground hover:bg-resolved/90 border-resolved",
+    color: "hsl(var(--resolved))",
+  },
+  reopened: {
+    label: "Reopened",
+    className: "bg-reopened text-reopened-foreground hover:bg-reopened/90 border-reopened",
+    color: "hsl(var(--reopened))",
+  },
+  rejected: {
+    label: "Rejected",
+    className: "bg-rejected text-rejected-foreground hover:bg-rejected/90 border-rejected",
+    color: "hsl(var(--rejected))",
+  },
+  closed: {
+    label: "Closed",
+    className: "bg-closed text-closed-foreground hover:bg-closed/90 border-closed",
+    color: "hsl(var(--closed))",
+  },
+  withdrawn: {
+    label: "Withdrawn",
+    className: "bg-withdrawn text-withdrawn-foreground hover:bg-withdrawn/90 border-withdrawn",
+    color: "hsl(var(--withdrawn))",
+  },
+};
+
+// Statuses that need a reason when a complaint is moved into them
+export const REASON_STATUSES: ComplaintStatus[] = ["needs_info", "on_hold", "rejected"];
+
+// Mirrors public.is_open_status in the database
+export const isOpenStatus = (status: ComplaintStatus) =>
+  !["resolved", "closed", "rejected", "withdrawn"].includes(status);
@@ -0,0 +1,63 @@
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportCell = string | number | null | undefined;
+
+// One table in an export; becomes a CSV file or a worksheet in the workbook
+export type ExportSheet = {
+  name: string;
+  rows: Record<string, ExportCell>[];
+};
+
+// Spreadsheet apps run cells that start like a formula, and titles come from students
+const neutralize = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const toCsvCell = (value: ExportCell) => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  const text = neutralize(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Record<string, ExportCell>[]) => {
+  if (rows.length === 0) return "";
+  const headers = Object.keys(rows[0]);
+  return [
+    headers.map(toCsvCell).join(","),
+    ...rows.map(row => headers.map(header => toCsvCell(row[header])).join(",")),
+  ].join("\r\n");
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// CSV gets one file per sheet, Excel gets one workbook with a worksheet per sheet
+export const downloadExport = async (fileName: string, format: ExportFormat, sheets: ExportSheet[]) => {
+  if (format === "csv") {
+    sheets.forEach(sheet => {
+      const name = sheets.length > 1 ? `${fileName}-${sheet.name.toLowerCase().replace(/\s+/g, "-")}` : fileName;
+      // The byte order mark makes Excel read the file as UTF-8
+      downloadBlob(new Blob(["\uFEFF" + toCsv(sheet.rows)], { type: "text/csv;charset=utf-8" }), `${name}.csv`);
+    });
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet library stays out of the main bundle
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(sheet => {
+    const rows = sheet.rows.map(row =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, typeof value === "string" ? neutralize(value) : value ?? null]))
+    );
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), sheet.name.slice(0, 31));
+  });
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+export const formatExportDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : null;
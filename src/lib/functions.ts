@@ -0,0 +1,15 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Edge functions answer failures with { error }, which invoke() hides behind a generic message
+export const invokeFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error instanceof FunctionsHttpError) {
+    const payload = await error.context.json().catch(() => null);
+    throw new Error(payload?.error ?? error.message);
+  }
+  if (error) throw error;
+
+  return data as T;
+};
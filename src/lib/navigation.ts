@@ -0,0 +1,42 @@
+import type { LucideIcon } from "lucide-react";
+import { ClipboardList, FileText, Inbox, LayoutDashboard, Route, Timer, Users, UsersRound } from "lucide-react";
+import type { Permission, UserRole } from "@/contexts/AuthContext";
+
+export type NavItem = {
+  title: string;
+  url: string;
+  icon: LucideIcon;
+  // Hidden unless the active role grants this permission
+  permission?: Permission;
+};
+
+// Where each role lands after signing in or opening "/"
+export const ROLE_HOME: Record<UserRole, string> = {
+  student: "/student",
+  staff: "/staff",
+  admin: "/admin",
+};
+
+export const roleTitles: Record<UserRole, string> = {
+  student: "Student Dashboard",
+  staff: "Staff Dashboard",
+  admin: "Admin Dashboard",
+};
+
+// Admin sections are dashboard tabs, addressed through the tab query parameter
+export const NAV_ITEMS: Record<UserRole, NavItem[]> = {
+  student: [
+    { title: "My Complaints", url: "/student", icon: FileText },
+  ],
+  staff: [
+    { title: "My Complaints", url: "/staff", icon: ClipboardList },
+    { title: "Team Queue", url: "/staff?tab=queue", icon: Inbox },
+  ],
+  admin: [
+    { title: "Complaints", url: "/admin", icon: LayoutDashboard },
+    { title: "Staff", url: "/admin?tab=staff", icon: Users, permission: "manage_users" },
+    { title: "Teams", url: "/admin?tab=teams", icon: UsersRound, permission: "manage_settings" },
+    { title: "Routing", url: "/admin?tab=routing", icon: Route, permission: "manage_settings" },
+    { title: "SLA Policies", url: "/admin?tab=sla", icon: Timer, permission: "manage_settings" },
+  ],
+};
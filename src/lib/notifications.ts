@@ -0,0 +1,77 @@
+import type { Database } from "@/integrations/supabase/types";
+import type { UserRole } from "@/contexts/AuthContext";
+
+export type NotificationType = Database["public"]["Enums"]["notification_type"];
+
+export type NotificationChannel = "in_app" | "email";
+
+export type NotificationEvent = {
+  type: NotificationType;
+  label: string;
+  description: string;
+  // Only these roles ever receive the event, so the settings page hides it from everyone else
+  roles: UserRole[];
+  // Not every event has both a bell notification and an email
+  channels: NotificationChannel[];
+};
+
+const ALL_CHANNELS: NotificationChannel[] = ["in_app", "email"];
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  {
+    type: "complaint_created",
+    label: "Complaint received",
+    description: "A receipt for each complaint you file",
+    roles: ["student"],
+    channels: ["email"],
+  },
+  {
+    type: "assigned",
+    label: "Assigned to me",
+    description: "A complaint is assigned to you",
+    roles: ["staff", "admin"],
+    channels: ALL_CHANNELS,
+  },
+  {
+    type: "status_changed",
+    label: "Status changes",
+    description: "One of your complaints changes status",
+    roles: ["student"],
+    channels: ALL_CHANNELS,
+  },
+  {
+    type: "resolved",
+    label: "Resolutions",
+    description: "One of your complaints is resolved",
+    roles: ["student"],
+    channels: ["email"],
+  },
+  {
+    type: "new_comment",
+    label: "New comments",
+    description: "Someone comments on your complaint or one assigned to you",
+    roles: ["student", "staff", "admin"],
+    channels: ALL_CHANNELS,
+  },
+  {
+    type: "resolution_disputed",
+    label: "Disputed resolutions",
+    description: "A student says a complaint you resolved isn't fixed",
+    roles: ["staff", "admin"],
+    channels: ["in_app"],
+  },
+  {
+    type: "overdue",
+    label: "Overdue complaints",
+    description: "A complaint breaches its SLA",
+    roles: ["admin"],
+    channels: ["in_app"],
+  },
+  {
+    type: "escalated",
+    label: "Escalations",
+    description: "A complaint is escalated to a higher priority",
+    roles: ["admin"],
+    channels: ["in_app"],
+  },
+];
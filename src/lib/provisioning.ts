@@ -0,0 +1,82 @@
+export type ImportRow = {
+  full_name: string;
+  email: string;
+  role: string;
+  batch: string | null;
+};
+
+// Per-row outcome from the provision-users edge function
+export type ImportResult = {
+  row: number;
+  email: string;
+  status: "ready" | "created" | "error";
+  errors: string[];
+};
+
+export const IMPORT_COLUMNS = ["full_name", "email", "role", "batch"] as const;
+
+// Splits CSV text into rows of cells, following quoted fields across commas and line breaks
+const parseCsvCells = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(c => c.trim()));
+};
+
+// Headers are matched loosely, so "Full Name", "full name" and "full_name" all work
+const normalizeHeader = (header: string) =>
+  header.replace(/^\uFEFF/, "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+export const parseUserCsv = (text: string): ImportRow[] => {
+  const [headerRow, ...dataRows] = parseCsvCells(text);
+  if (!headerRow) throw new Error("The file is empty");
+
+  const headers = headerRow.map(normalizeHeader);
+  const missing = IMPORT_COLUMNS.filter(column => column !== "batch" && !headers.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  }
+
+  const valueOf = (cells: string[], column: string) => cells[headers.indexOf(column)]?.trim() ?? "";
+
+  return dataRows.map(cells => ({
+    full_name: valueOf(cells, "full_name"),
+    email: valueOf(cells, "email"),
+    role: valueOf(cells, "role"),
+    batch: valueOf(cells, "batch") || null,
+  }));
+};
@@ -1,88 +1,278 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { Navbar } from "@/components/Navbar";
+import { UserRole, useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { StatusBadge } from "@/components/StatusBadge";
+import { SlaSettings } from "@/components/SlaSettings";
+import { RoutingSettings } from "@/components/RoutingSettings";
+import { TeamSettings } from "@/components/TeamSettings";
+import { AnalyticsOverview } from "@/components/AnalyticsOverview";
+import { SlaBadge, SlaFields } from "@/components/SlaBadge";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { ListPagination } from "@/components/ListPagination";
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { ExportMenu } from "@/components/ExportMenu";
+import { UserImport } from "@/components/UserImport";
+import { InvitationSettings } from "@/components/InvitationSettings";
+import { RegistrationSettings } from "@/components/RegistrationSettings";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useDebounce } from "@/hooks/use-debounce";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, FileText, MessageSquare, AlertCircle, Clock } from "lucide-react";
-import { useNavigate } from "react-router-dom";
-import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ComplaintPriority, ComplaintStatus, PRIORITIES, STATUSES, priorityLabels, statusConfig } from "@/lib/complaints";
+import { ExportFormat, downloadExport, formatExportDate } from "@/lib/export";
+import { Users, FileText, MessageSquare, AlertCircle, Clock, Star } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+
+// Live queue counters, as returned by public.complaint_queue_summary
+type QueueSummary = {
+  total: number;
+  unassigned: number;
+  overdue: number;
+};
 
-type Complaint = {
+// One page of the complaint list, as returned by public.search_complaints
+type ComplaintRow = SlaFields & {
   id: string;
   title: string;
   description: string;
   category: string;
-  status: "pending" | "in_progress" | "resolved";
+  status: ComplaintStatus;
+  priority: ComplaintPriority;
   created_at: string;
   assigned_to: string | null;
-  student_profile: {
-    full_name: string;
-  } | null;
+  assignment_reason: string | null;
+  student_name: string | null;
+  tags: string[];
 };
 
+type ListTab = "unassigned" | "assigned";
+
+const PAGE_SIZE = 20;
+const EXPORT_BATCH_SIZE = 1000;
+
 type StaffMember = {
   id: string;
   full_name: string;
   email: string;
 };
 
+type Feedback = {
+  complaint_id: string;
+  staff_id: string | null;
+  outcome: "confirmed" | "disputed";
+  rating: number | null;
+  complaints: {
+    category: string;
+  } | null;
+};
+
 type User = {
   id: string;
   full_name: string;
   email: string;
-  role: "student" | "staff" | "admin";
+  roles: UserRole[];
 };
 
 export default function AdminDashboard() {
+  const { can } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
-  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [queueSummary, setQueueSummary] = useState<QueueSummary>({ total: 0, unassigned: 0, overdue: 0 });
   const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
   const [allUsers, setAllUsers] = useState<User[]>([]);
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
   const [loading, setLoading] = useState(true);
-  
-  // Filter states
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [staffFilter, setStaffFilter] = useState<string>("all");
-  const [sortBy, setSortBy] = useState<string>("newest");
+
+  // Paged complaint list, searched, filtered and sorted in the database
+  const [listRows, setListRows] = useState<ComplaintRow[]>([]);
+  const [listCounts, setListCounts] = useState<Record<ListTab, number>>({ unassigned: 0, assigned: 0 });
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Filter states live in the query string so a filtered view can be shared or reloaded
+  const [searchParams, setSearchParams] = useSearchParams();
+  const statusFilter = searchParams.get("status") ?? "all";
+  const staffFilter = searchParams.get("staff") ?? "all";
+  const priorityFilter = searchParams.get("priority") ?? "all";
+  const sortBy = searchParams.get("sort") ?? "newest";
+  const activeTab = searchParams.get("tab") ?? "unassigned";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const listTab: ListTab = activeTab === "assigned" ? "assigned" : "unassigned";
+
+  const urlQuery = searchParams.get("q") ?? "";
+  const [searchInput, setSearchInput] = useState(urlQuery);
+  const searchQuery = useDebounce(searchInput.trim());
+  // The last query the search box wrote to the URL, to tell its own updates from back/forward navigation
+  const syncedQuery = useRef(urlQuery);
+
+  // Any filter change starts the list again from the first page
+  const updateParams = useCallback((changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === "" || value === "all") next.delete(key);
+        else next.set(key, value);
+      });
+      if (!("page" in changes)) next.delete("page");
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Runs only when the typed query settles; running on URL changes would write a stale query back
+  useEffect(() => {
+    if (searchQuery === urlQuery) return;
+    syncedQuery.current = searchQuery;
+    updateParams({ q: searchQuery });
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (urlQuery === syncedQuery.current) return;
+    syncedQuery.current = urlQuery;
+    setSearchInput(urlQuery);
+  }, [urlQuery]);
 
   useEffect(() => {
     fetchData();
   }, []);
 
-  const fetchData = async () => {
+  // Selection never carries over to a different page, tab or filter
+  useEffect(() => {
+    setSelectedIds(new Set());
+    fetchList();
+  }, [searchParams]);
+
+  // Counters, the overdue banner and the list all follow live complaint changes
+  useRealtime("admin-complaints", [
+    {
+      table: "complaints",
+      onChange: () => {
+        fetchQueueSummary();
+        fetchList();
+      },
+    },
+    { table: "complaint_feedback", onChange: () => fetchFeedback() },
+  ]);
+
+  const fetchQueueSummary = async () => {
     try {
-      // Fetch all complaints
-      const { data: complaintsData, error: complaintsError } = await supabase
-        .from("complaints")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const { data, error } = await supabase.rpc("complaint_queue_summary");
 
-      if (complaintsError) throw complaintsError;
-      
-      // Fetch student profiles
-      if (complaintsData && complaintsData.length > 0) {
-        const studentIds = complaintsData.map(c => c.student_id);
-        const { data: profiles } = await supabase
-          .from("profiles")
-          .select("id, full_name")
-          .in("id", studentIds);
-        
-        const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
-        const complaintsWithProfiles = complaintsData.map(c => ({
-          ...c,
-          student_profile: profileMap.get(c.student_id) || null
-        })) as any;
-        
-        setComplaints(complaintsWithProfiles);
-      } else {
-        setComplaints([]);
-      }
+      if (error) throw error;
+      if (data?.[0]) setQueueSummary(data[0]);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const searchComplaints = (tab: ListTab, limit: number, offset: number) =>
+    supabase.rpc("search_complaints", {
+      _query: searchParams.get("q") || undefined,
+      _status: statusFilter !== "all" ? (statusFilter as ComplaintStatus) : undefined,
+      _priority: priorityFilter !== "all" ? (priorityFilter as ComplaintPriority) : undefined,
+      _assigned_to: staffFilter !== "all" ? staffFilter : undefined,
+      _unassigned: tab === "unassigned",
+      _sort: sortBy,
+      _limit: limit,
+      _offset: offset,
+    });
+
+  const fetchList = async () => {
+    const otherTab: ListTab = listTab === "unassigned" ? "assigned" : "unassigned";
+
+    try {
+      // The other tab only needs its total for the tab label
+      const [current, other] = await Promise.all([
+        searchComplaints(listTab, PAGE_SIZE, (page - 1) * PAGE_SIZE),
+        searchComplaints(otherTab, 1, 0),
+      ]);
+
+      if (current.error) throw current.error;
+      if (other.error) throw other.error;
+
+      setListRows(current.data || []);
+      setListCounts({
+        [listTab]: current.data?.[0]?.total_count ?? 0,
+        [otherTab]: other.data?.[0]?.total_count ?? 0,
+      } as Record<ListTab, number>);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Exports every page of the current tab with the filters and sort on screen
+  const handleExportComplaints = async (format: ExportFormat) => {
+    const rows: ComplaintRow[] = [];
+    let total = 0;
+    do {
+      const { data, error } = await searchComplaints(listTab, EXPORT_BATCH_SIZE, rows.length);
+      if (error) throw error;
+      if (!data || data.length === 0) break;
+      rows.push(...data);
+      total = data[0].total_count;
+    } while (rows.length < total);
+
+    // Assignees may no longer hold the staff role, so look their names up directly
+    const assigneeIds = [...new Set(rows.map(c => c.assigned_to).filter((id): id is string => !!id))];
+    const { data: assignees, error: assigneeError } = await supabase
+      .from("profiles")
+      .select("id, full_name")
+      .in("id", assigneeIds);
+
+    if (assigneeError) throw assigneeError;
+    const assigneeNames = new Map(assignees?.map(p => [p.id, p.full_name]) || []);
+
+    await downloadExport(`complaints-${listTab}-${new Date().toISOString().slice(0, 10)}`, format, [{
+      name: "Complaints",
+      rows: rows.map(c => ({
+        "ID": c.id,
+        "Title": c.title,
+        "Student": c.student_name,
+        "Assignee": c.assigned_to ? assigneeNames.get(c.assigned_to) ?? "Unknown" : null,
+        "Category": c.category,
+        "Status": statusConfig[c.status].label,
+        "Priority": priorityLabels[c.priority],
+        "Tags": c.tags.join(", "),
+        "Submitted": formatExportDate(c.created_at),
+        "First Response": formatExportDate(c.first_responded_at),
+        "Resolved": formatExportDate(c.resolved_at),
+        // Matches the analytics view: only resolved and closed complaints have a resolution time
+        "Resolution Time (hrs)": c.resolved_at && ["resolved", "closed"].includes(c.status)
+          ? Number(((new Date(c.resolved_at).getTime() - new Date(c.created_at).getTime()) / 3600000).toFixed(1))
+          : null,
+        "First Response SLA Breached": c.first_response_breached ? "Yes" : "No",
+        "Resolution SLA Breached": c.resolution_breached ? "Yes" : "No",
+      })),
+    }]);
+  };
+
+  const fetchFeedback = async () => {
+    const { data, error } = await supabase
+      .from("complaint_feedback")
+      .select("complaint_id, staff_id, outcome, rating, complaints(category)");
+
+    if (error) {
+      console.error("Error fetching feedback:", error);
+      return;
+    }
+    setFeedback(data || []);
+  };
+
+  const fetchData = async () => {
+    try {
+      await fetchQueueSummary();
+      await fetchFeedback();
 
       // Fetch staff members
       const { data: staffData, error: staffError } = await supabase
@@ -111,10 +301,9 @@ export default function AdminDashboard() {
         .from("user_roles")
         .select("user_id, role");
       
-      const roleMap = new Map(allRolesData?.map(r => [r.user_id, r.role]) || []);
       const usersWithRoles = allProfilesData?.map(p => ({
         ...p,
-        role: roleMap.get(p.id) || "student"
+        roles: allRolesData?.filter(r => r.user_id === p.id).map(r => r.role) || []
       })) as User[];
       
       setAllUsers(usersWithRoles || []);
@@ -130,12 +319,16 @@ export default function AdminDashboard() {
   };
 
   const handleAssignStaff = async (complaintId: string, staffId: string) => {
+    // Fresh and reopened complaints start moving as soon as they have an owner
+    const complaint = listRows.find(c => c.id === complaintId);
+    const status = complaint && ["pending", "reopened"].includes(complaint.status) ? "in_progress" : complaint?.status;
+
     try {
       const { error } = await supabase
         .from("complaints")
         .update({ 
           assigned_to: staffId,
-          status: "in_progress"
+          status
         })
         .eq("id", complaintId);
 
@@ -146,7 +339,8 @@ export default function AdminDashboard() {
         description: "Complaint assigned successfully",
       });
 
-      fetchData();
+      fetchQueueSummary();
+      fetchList();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -158,10 +352,10 @@ export default function AdminDashboard() {
 
   const handlePromoteToStaff = async (userId: string) => {
     try {
+      // Staff is granted alongside the user's other roles
       const { error } = await supabase
         .from("user_roles")
-        .update({ role: "staff" })
-        .eq("user_id", userId);
+        .upsert({ user_id: userId, role: "staff" }, { onConflict: "user_id,role", ignoreDuplicates: true });
 
       if (error) throw error;
 
@@ -184,11 +378,26 @@ export default function AdminDashboard() {
     try {
       const { error } = await supabase
         .from("user_roles")
-        .update({ role: "student" })
-        .eq("user_id", userId);
+        .delete()
+        .eq("user_id", userId)
+        .eq("role", "staff");
 
       if (error) throw error;
 
+      // Make sure the demoted user can still sign in to the student dashboard
+      const { error: studentError } = await supabase
+        .from("user_roles")
+        .upsert({ user_id: userId, role: "student" }, { onConflict: "user_id,role", ignoreDuplicates: true });
+
+      if (studentError) throw studentError;
+
+      const { error: teamsError } = await supabase
+        .from("team_members")
+        .delete()
+        .eq("user_id", userId);
+
+      if (teamsError) throw teamsError;
+
       toast({
         title: "Success",
         description: "Staff demoted to student",
@@ -204,484 +413,506 @@ export default function AdminDashboard() {
     }
   };
 
-  // Filter complaints based on search and filters
-  const filteredComplaints = complaints.filter(complaint => {
-    const matchesSearch = 
-      searchQuery === "" ||
-      complaint.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      complaint.student_profile?.full_name.toLowerCase().includes(searchQuery.toLowerCase());
-    
-    const matchesStatus = statusFilter === "all" || complaint.status === statusFilter;
-    const matchesStaff = staffFilter === "all" || complaint.assigned_to === staffFilter;
-    
-    return matchesSearch && matchesStatus && matchesStaff;
-  });
-
-  // Sort complaints
-  const sortedComplaints = [...filteredComplaints].sort((a, b) => {
-    switch (sortBy) {
-      case "newest":
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      case "oldest":
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-      case "student":
-        const nameA = a.student_profile?.full_name || "";
-        const nameB = b.student_profile?.full_name || "";
-        return nameA.localeCompare(nameB);
-      case "title":
-        return a.title.localeCompare(b.title);
-      default:
-        return 0;
-    }
-  });
-
-  const unassignedComplaints = sortedComplaints.filter(c => !c.assigned_to);
-  const assignedComplaints = sortedComplaints.filter(c => c.assigned_to);
-
-  // Analytics calculations
-  const pendingCount = complaints.filter(c => c.status === "pending").length;
-  const inProgressCount = complaints.filter(c => c.status === "in_progress").length;
-  const resolvedCount = complaints.filter(c => c.status === "resolved").length;
-  const unassignedCount = complaints.filter(c => !c.assigned_to).length;
-
-  // Status chart data
-  const statusChartData = [
-    { name: "Pending", value: pendingCount, color: "hsl(var(--pending))" },
-    { name: "In Progress", value: inProgressCount, color: "hsl(var(--in-progress))" },
-    { name: "Resolved", value: resolvedCount, color: "hsl(var(--resolved))" },
-  ];
-
-  // Category chart data
-  const categoryData = complaints.reduce((acc, complaint) => {
-    const category = complaint.category;
-    const existing = acc.find(item => item.name === category);
-    if (existing) {
-      existing.value++;
-    } else {
-      acc.push({ name: category, value: 1 });
-    }
-    return acc;
-  }, [] as { name: string; value: number }[]);
-
-  // Last 7 days data
-  const last7DaysData = Array.from({ length: 7 }, (_, i) => {
-    const date = new Date();
-    date.setDate(date.getDate() - (6 - i));
-    const dateString = date.toISOString().split('T')[0];
-    const count = complaints.filter(c => c.created_at.startsWith(dateString)).length;
-    return {
-      date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      complaints: count
-    };
-  });
-
-  // Overdue complaints (pending for more than 3 days without assignment)
-  const threeDaysAgo = new Date();
-  threeDaysAgo.setDate(threeDaysAgo.getDate() - 3);
-  const overdueComplaints = complaints.filter(c => 
-    c.status === "pending" && 
-    !c.assigned_to && 
-    new Date(c.created_at) < threeDaysAgo
+  // The server already split the list; finished complaints never need an owner
+  const unassignedComplaints = listTab === "unassigned" ? listRows : [];
+  const assignedComplaints = listTab === "assigned" ? listRows : [];
+
+  const canBulkEdit = can("assign_complaints");
+  const selectedRows = listRows.filter(c => selectedIds.has(c.id));
+  const allSelected = listRows.length > 0 && selectedRows.length === listRows.length;
+
+  const toggleSelected = (complaintId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(complaintId);
+      else next.delete(complaintId);
+      return next;
+    });
+  };
+
+  const toggleAllSelected = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(listRows.map(c => c.id)) : new Set());
+  };
+
+  const bulkControls = canBulkEdit && (
+    <>
+      <BulkActionBar
+        selected={selectedRows}
+        staffMembers={staffMembers}
+        onClear={() => setSelectedIds(new Set())}
+        onComplete={() => {
+          fetchQueueSummary();
+          fetchList();
+        }}
+      />
+      {listRows.length > 0 && (
+        <label className="mb-3 flex w-fit items-center gap-2 text-sm text-muted-foreground">
+          <Checkbox
+            checked={allSelected ? true : selectedRows.length > 0 ? "indeterminate" : false}
+            onCheckedChange={(checked) => toggleAllSelected(checked === true)}
+          />
+          Select all on this page
+        </label>
+      )}
+    </>
+  );
+
+  const selectBox = (complaint: ComplaintRow) => canBulkEdit && (
+    <Checkbox
+      checked={selectedIds.has(complaint.id)}
+      onCheckedChange={(checked) => toggleSelected(complaint.id, checked === true)}
+      onClick={(e) => e.stopPropagation()}
+      aria-label={`Select ${complaint.title}`}
+      className="mt-1.5"
+    />
+  );
+
+  const tagBadges = (complaint: ComplaintRow) => complaint.tags.length > 0 && (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {complaint.tags.map((tag) => (
+        <Badge key={tag} variant="secondary" className="font-normal">{tag}</Badge>
+      ))}
+    </div>
   );
 
+  const unassignedCount = queueSummary.unassigned;
+  const overdueCount = queueSummary.overdue;
+
+  // Student satisfaction (CSAT) grouped by the staff member who resolved it and by category
+  const summarizeFeedback = (keyOf: (f: Feedback) => string | null | undefined) => {
+    const groups = new Map<string, Feedback[]>();
+    feedback.forEach(f => {
+      const key = keyOf(f);
+      if (!key) return;
+      groups.set(key, [...(groups.get(key) || []), f]);
+    });
+    return Array.from(groups.entries()).map(([key, entries]) => {
+      const ratings = entries.filter(f => f.rating !== null).map(f => f.rating!);
+      return {
+        key,
+        average: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+        responses: entries.length,
+        disputed: entries.filter(f => f.outcome === "disputed").length,
+      };
+    }).sort((a, b) => (b.average ?? 0) - (a.average ?? 0));
+  };
+
+  const csatByStaff = summarizeFeedback(f => f.staff_id);
+  const csatByCategory = summarizeFeedback(f => f.complaints?.category);
+
   return (
-    <div className="min-h-screen bg-background">
-      <Navbar />
-      <main className="container mx-auto px-4 py-8">
-        <div className="mb-8">
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
           <h2 className="text-3xl font-bold text-foreground">Admin Dashboard</h2>
           <p className="text-muted-foreground mt-1">Manage complaints and assign to staff</p>
         </div>
-
-        {/* Notification Area */}
-        {(unassignedCount > 0 || overdueComplaints.length > 0) && (
-          <div className="mb-6 space-y-3">
-            {unassignedCount > 0 && (
-              <Card className="border-l-4 border-l-pending bg-card">
-                <CardContent className="flex items-center gap-3 py-4">
-                  <AlertCircle className="h-5 w-5 text-pending" />
-                  <div>
-                    <p className="font-medium text-foreground">
-                      {unassignedCount} complaint{unassignedCount !== 1 ? 's' : ''} pending assignment
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      These complaints need to be assigned to staff members
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-            {overdueComplaints.length > 0 && (
-              <Card className="border-l-4 border-l-destructive bg-card">
-                <CardContent className="flex items-center gap-3 py-4">
-                  <Clock className="h-5 w-5 text-destructive" />
-                  <div>
-                    <p className="font-medium text-foreground">
-                      {overdueComplaints.length} complaint{overdueComplaints.length !== 1 ? 's' : ''} overdue
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      Pending for more than 3 days without assignment
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+        {can("view_all_complaints") && (
+          <ExportMenu label="Export complaints" onExport={handleExportComplaints} />
         )}
-
-        {/* Search and Filters */}
-        <Card className="mb-6">
-          <CardContent className="pt-6">
-            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-              <div className="md:col-span-2">
-                <input
-                  type="text"
-                  placeholder="Search by title or student name..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-full px-4 py-2 border border-border rounded-md bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
-                />
-              </div>
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Filter by status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
-                </SelectContent>
-              </Select>
-              <Select value={staffFilter} onValueChange={setStaffFilter}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Filter by staff" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Staff</SelectItem>
-                  {staffMembers.map((staff) => (
-                    <SelectItem key={staff.id} value={staff.id}>
-                      {staff.full_name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Select value={sortBy} onValueChange={setSortBy}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Sort by" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="newest">Newest First</SelectItem>
-                  <SelectItem value="oldest">Oldest First</SelectItem>
-                  <SelectItem value="student">Student Name</SelectItem>
-                  <SelectItem value="title">Title (A-Z)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Analytics Section */}
-        <div className="mb-8">
-          <h3 className="text-xl font-semibold text-foreground mb-4">Analytics Overview</h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {/* Last 7 Days Chart */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-base">Complaints Last 7 Days</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={180}>
-                  <BarChart data={last7DaysData}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                    <XAxis 
-                      dataKey="date" 
-                      tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
-                      stroke="hsl(var(--border))"
-                    />
-                    <YAxis 
-                      tick={{ fill: 'hsl(var(--muted-foreground))', fontSize: 11 }}
-                      stroke="hsl(var(--border))"
-                    />
-                    <Tooltip 
-                      contentStyle={{ 
-                        backgroundColor: 'hsl(var(--popover))',
-                        border: '1px solid hsl(var(--border))',
-                        borderRadius: '6px'
-                      }}
-                    />
-                    <Bar dataKey="complaints" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
-                  </BarChart>
-                </ResponsiveContainer>
+      </div>
+
+      {/* Notification Area */}
+      {(unassignedCount > 0 || overdueCount > 0) && (
+        <div className="mb-6 space-y-3">
+          {unassignedCount > 0 && (
+            <Card className="border-l-4 border-l-pending bg-card">
+              <CardContent className="flex items-center gap-3 py-4">
+                <AlertCircle className="h-5 w-5 text-pending" />
+                <div>
+                  <p className="font-medium text-foreground">
+                    {unassignedCount} complaint{unassignedCount !== 1 ? 's' : ''} pending assignment
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    These complaints need to be assigned to staff members
+                  </p>
+                </div>
               </CardContent>
             </Card>
-
-            {/* Status Breakdown */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-base">Status Breakdown</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <ResponsiveContainer width="100%" height={180}>
-                  <PieChart>
-                    <Pie
-                      data={statusChartData}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={40}
-                      outerRadius={70}
-                      paddingAngle={2}
-                      dataKey="value"
-                    >
-                      {statusChartData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={entry.color} />
-                      ))}
-                    </Pie>
-                    <Tooltip 
-                      contentStyle={{ 
-                        backgroundColor: 'hsl(var(--popover))',
-                        border: '1px solid hsl(var(--border))',
-                        borderRadius: '6px'
-                      }}
-                    />
-                    <Legend 
-                      wrapperStyle={{ fontSize: '12px' }}
-                      iconType="circle"
-                    />
-                  </PieChart>
-                </ResponsiveContainer>
+          )}
+          {overdueCount > 0 && (
+            <Card className="border-l-4 border-l-destructive bg-card">
+              <CardContent className="flex items-center gap-3 py-4">
+                <Clock className="h-5 w-5 text-destructive" />
+                <div>
+                  <p className="font-medium text-foreground">
+                    {overdueCount} complaint{overdueCount !== 1 ? 's' : ''} overdue
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Past their first response or resolution SLA target
+                  </p>
+                </div>
               </CardContent>
             </Card>
-
-            {/* Category Breakdown */}
-            <Card>
+          )}
+        </div>
+      )}
+
+      {/* Search and Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+            <div className="md:col-span-2">
+              <input
+                type="text"
+                placeholder="Search by title, description or student name..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-full px-4 py-2 border border-border rounded-md bg-background text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => updateParams({ status: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusConfig[status].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={staffFilter} onValueChange={(value) => updateParams({ staff: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by staff" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Staff</SelectItem>
+                {staffMembers.map((staff) => (
+                  <SelectItem key={staff.id} value={staff.id}>
+                    {staff.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={priorityFilter} onValueChange={(value) => updateParams({ priority: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Filter by priority" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Priorities</SelectItem>
+                {PRIORITIES.map((priority) => (
+                  <SelectItem key={priority} value={priority}>
+                    {priorityLabels[priority]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sortBy} onValueChange={(value) => updateParams({ sort: value === "newest" ? null : value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relevance">Best Match</SelectItem>
+                <SelectItem value="newest">Newest First</SelectItem>
+                <SelectItem value="oldest">Oldest First</SelectItem>
+                <SelectItem value="priority">Priority</SelectItem>
+                <SelectItem value="student">Student Name</SelectItem>
+                <SelectItem value="title">Title (A-Z)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {can("view_analytics") && <AnalyticsOverview />}
+
+      <div className="mb-8">
+        {/* Student Satisfaction */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {[
+            { title: "Satisfaction by Staff", rows: csatByStaff, label: (key: string) => staffMembers.find(s => s.id === key)?.full_name || "Former staff" },
+            { title: "Satisfaction by Category", rows: csatByCategory, label: (key: string) => key },
+          ].map(({ title, rows, label }) => (
+            <Card key={title}>
               <CardHeader>
-                <CardTitle className="text-base">Categories</CardTitle>
+                <CardTitle className="text-base">{title}</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
-                  {categoryData.slice(0, 5).map((category, index) => (
-                    <div key={index} className="flex items-center justify-between">
-                      <span className="text-sm text-foreground capitalize">{category.name}</span>
-                      <div className="flex items-center gap-2">
-                        <div className="w-24 h-2 bg-muted rounded-full overflow-hidden">
-                          <div 
-                            className="h-full bg-primary rounded-full"
-                            style={{ width: `${(category.value / complaints.length) * 100}%` }}
-                          />
-                        </div>
-                        <span className="text-sm font-medium text-foreground w-8 text-right">
-                          {category.value}
+                  {rows.map((row) => (
+                    <div key={row.key} className="flex items-center justify-between">
+                      <span className="text-sm text-foreground capitalize">{label(row.key)}</span>
+                      <div className="flex items-center gap-3 text-sm">
+                        <span className="flex items-center gap-1 font-medium text-foreground">
+                          <Star className="h-4 w-4 fill-warning text-warning" />
+                          {row.average !== null ? row.average.toFixed(1) : "–"}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {row.responses} {row.responses === 1 ? "response" : "responses"}
+                          {row.disputed > 0 && ` • ${row.disputed} disputed`}
                         </span>
                       </div>
                     </div>
                   ))}
-                  {categoryData.length === 0 && (
-                    <p className="text-sm text-muted-foreground text-center py-4">No data yet</p>
+                  {rows.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-4">No feedback yet</p>
                   )}
                 </div>
               </CardContent>
             </Card>
-          </div>
-        </div>
-
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Complaints</CardTitle>
-              <FileText className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{complaints.length}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Unassigned</CardTitle>
-              <MessageSquare className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{unassignedComplaints.length}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Staff Members</CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{staffMembers.length}</div>
-            </CardContent>
-          </Card>
+          ))}
         </div>
-
-        <Tabs defaultValue="unassigned" className="w-full">
-          <TabsList>
-            <TabsTrigger value="unassigned">
-              Unassigned ({unassignedComplaints.length})
-            </TabsTrigger>
-            <TabsTrigger value="assigned">
-              Assigned ({assignedComplaints.length})
-            </TabsTrigger>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Complaints</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{queueSummary.total}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unassigned</CardTitle>
+            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{unassignedCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Staff Members</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{staffMembers.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(value) => updateParams({ tab: value === "unassigned" ? null : value })} className="w-full">
+        <TabsList>
+          <TabsTrigger value="unassigned">
+            Unassigned ({listCounts.unassigned})
+          </TabsTrigger>
+          <TabsTrigger value="assigned">
+            Assigned ({listCounts.assigned})
+          </TabsTrigger>
+          {can("manage_users") && (
             <TabsTrigger value="staff">
               Staff Management
             </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="unassigned" className="mt-6">
-            {unassignedComplaints.length === 0 ? (
-              <Card>
-                <CardContent className="text-center py-12">
-                  <p className="text-muted-foreground">No unassigned complaints</p>
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="grid gap-4">
-                {unassignedComplaints.map((complaint) => (
-                  <Card key={complaint.id}>
+          )}
+          {can("manage_settings") && (
+            <>
+              <TabsTrigger value="teams">
+                Teams
+              </TabsTrigger>
+              <TabsTrigger value="routing">
+                Routing
+              </TabsTrigger>
+              <TabsTrigger value="sla">
+                SLA Policies
+              </TabsTrigger>
+            </>
+          )}
+        </TabsList>
+
+        <TabsContent value="unassigned" className="mt-6">
+          {bulkControls}
+          {unassignedComplaints.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <p className="text-muted-foreground">No unassigned complaints</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {unassignedComplaints.map((complaint) => (
+                <Card key={complaint.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start gap-4">
+                      {selectBox(complaint)}
+                      <div className="flex-1">
+                        <CardTitle className="text-lg">{complaint.title}</CardTitle>
+                        <CardDescription className="mt-1">
+                          From: {complaint.student_name || "Unknown"} • {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
+                        </CardDescription>
+                        {tagBadges(complaint)}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <SlaBadge complaint={complaint} />
+                        <PriorityBadge priority={complaint.priority} />
+                        <StatusBadge status={complaint.status} />
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground mb-4 line-clamp-2">{complaint.description}</p>
+                    <div className="flex gap-2 items-center">
+                      <Select onValueChange={(value) => handleAssignStaff(complaint.id, value)}>
+                        <SelectTrigger className="w-[200px]">
+                          <SelectValue placeholder="Quick assign..." />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover z-50">
+                          {staffMembers.map((staff) => (
+                            <SelectItem key={staff.id} value={staff.id}>
+                              {staff.full_name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="outline"
+                        onClick={() => navigate(`/complaint/${complaint.id}`)}
+                      >
+                        View Details
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+          <ListPagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={listCounts.unassigned}
+            onPageChange={(value) => updateParams({ page: String(value) })}
+          />
+        </TabsContent>
+
+        <TabsContent value="assigned" className="mt-6">
+          {bulkControls}
+          {assignedComplaints.length === 0 ? (
+            <Card>
+              <CardContent className="text-center py-12">
+                <p className="text-muted-foreground">No assigned complaints</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4">
+              {assignedComplaints.map((complaint) => {
+                const assignedStaff = staffMembers.find(s => s.id === complaint.assigned_to);
+                return (
+                  <Card
+                    key={complaint.id}
+                    className="hover:shadow-medium transition-shadow cursor-pointer"
+                    onClick={() => navigate(`/complaint/${complaint.id}`)}
+                  >
                     <CardHeader>
                       <div className="flex justify-between items-start gap-4">
+                        {selectBox(complaint)}
                         <div className="flex-1">
                           <CardTitle className="text-lg">{complaint.title}</CardTitle>
                           <CardDescription className="mt-1">
-                            From: {complaint.student_profile?.full_name || "Unknown"} • {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
+                            From: {complaint.student_name || "Unknown"} • 
+                            Assigned to: {assignedStaff?.full_name || "Unknown"} • 
+                            {new Date(complaint.created_at).toLocaleDateString()} • 
+                            {complaint.category}
                           </CardDescription>
+                          {tagBadges(complaint)}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <SlaBadge complaint={complaint} />
+                          <PriorityBadge priority={complaint.priority} />
+                          <StatusBadge status={complaint.status} />
                         </div>
-                        <StatusBadge status={complaint.status} />
                       </div>
                     </CardHeader>
                     <CardContent>
-                      <p className="text-sm text-muted-foreground mb-4 line-clamp-2">{complaint.description}</p>
-                      <div className="flex gap-2 items-center">
-                        <Select onValueChange={(value) => handleAssignStaff(complaint.id, value)}>
-                          <SelectTrigger className="w-[200px]">
-                            <SelectValue placeholder="Quick assign..." />
-                          </SelectTrigger>
-                          <SelectContent className="bg-popover z-50">
-                            {staffMembers.map((staff) => (
-                              <SelectItem key={staff.id} value={staff.id}>
-                                {staff.full_name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{complaint.description}</p>
+                      {complaint.assignment_reason && (
+                        <p className="text-xs text-muted-foreground italic mt-2">{complaint.assignment_reason}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+          <ListPagination
+            page={page}
+            pageSize={PAGE_SIZE}
+            total={listCounts.assigned}
+            onPageChange={(value) => updateParams({ page: String(value) })}
+          />
+        </TabsContent>
+
+        <TabsContent value="staff" className="mt-6">
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Current Staff</CardTitle>
+                <CardDescription>Users with staff role</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {staffMembers.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">No staff members yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {staffMembers.map((staff) => (
+                      <div key={staff.id} className="flex items-center justify-between p-3 border border-border rounded-md">
+                        <div>
+                          <p className="font-medium">{staff.full_name}</p>
+                          <p className="text-sm text-muted-foreground">{staff.email}</p>
+                        </div>
                         <Button
                           variant="outline"
-                          onClick={() => navigate(`/complaint/${complaint.id}`)}
+                          size="sm"
+                          onClick={() => handleDemoteToStudent(staff.id)}
                         >
-                          View Details
+                          Demote
                         </Button>
                       </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
-          </TabsContent>
-
-          <TabsContent value="assigned" className="mt-6">
-            {assignedComplaints.length === 0 ? (
-              <Card>
-                <CardContent className="text-center py-12">
-                  <p className="text-muted-foreground">No assigned complaints</p>
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="grid gap-4">
-                {assignedComplaints.map((complaint) => {
-                  const assignedStaff = staffMembers.find(s => s.id === complaint.assigned_to);
-                  return (
-                    <Card
-                      key={complaint.id}
-                      className="hover:shadow-medium transition-shadow cursor-pointer"
-                      onClick={() => navigate(`/complaint/${complaint.id}`)}
-                    >
-                      <CardHeader>
-                        <div className="flex justify-between items-start">
-                          <div className="flex-1">
-                            <CardTitle className="text-lg">{complaint.title}</CardTitle>
-                            <CardDescription className="mt-1">
-                              From: {complaint.student_profile?.full_name || "Unknown"} • 
-                              Assigned to: {assignedStaff?.full_name || "Unknown"} • 
-                              {new Date(complaint.created_at).toLocaleDateString()} • 
-                              {complaint.category}
-                            </CardDescription>
-                          </div>
-                          <StatusBadge status={complaint.status} />
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <p className="text-sm text-muted-foreground line-clamp-2">{complaint.description}</p>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
-              </div>
-            )}
-          </TabsContent>
-
-          <TabsContent value="staff" className="mt-6">
-            <div className="grid gap-6 md:grid-cols-2">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Current Staff</CardTitle>
-                  <CardDescription>Users with staff role</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {staffMembers.length === 0 ? (
-                    <p className="text-muted-foreground text-sm">No staff members yet</p>
-                  ) : (
-                    <div className="space-y-3">
-                      {staffMembers.map((staff) => (
-                        <div key={staff.id} className="flex items-center justify-between p-3 border border-border rounded-md">
-                          <div>
-                            <p className="font-medium">{staff.full_name}</p>
-                            <p className="text-sm text-muted-foreground">{staff.email}</p>
-                          </div>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDemoteToStudent(staff.id)}
-                          >
-                            Demote
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>All Users</CardTitle>
-                  <CardDescription>Promote students to staff</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {allUsers
-                      .filter(user => user.role === "student")
-                      .map((user) => (
-                        <div key={user.id} className="flex items-center justify-between p-3 border border-border rounded-md">
-                          <div>
-                            <p className="font-medium">{user.full_name}</p>
-                            <p className="text-sm text-muted-foreground">{user.email}</p>
-                          </div>
-                          <Button
-                            size="sm"
-                            onClick={() => handlePromoteToStaff(user.id)}
-                          >
-                            Promote to Staff
-                          </Button>
-                        </div>
-                      ))}
+                    ))}
                   </div>
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
-        </Tabs>
-      </main>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>All Users</CardTitle>
+                <CardDescription>Promote students to staff</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {allUsers
+                    .filter(user => user.roles.includes("student") && !user.roles.includes("staff"))
+                    .map((user) => (
+                      <div key={user.id} className="flex items-center justify-between p-3 border border-border rounded-md">
+                        <div>
+                          <p className="font-medium">{user.full_name}</p>
+                          <p className="text-sm text-muted-foreground">{user.email}</p>
+                        </div>
+                        <Button
+                          size="sm"
+                          onClick={() => handlePromoteToStaff(user.id)}
+                        >
+                          Promote to Staff
+                        </Button>
+                      </div>
+                    ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <RegistrationSettings onApproved={fetchData} />
+          <InvitationSettings />
+          <UserImport onImported={fetchData} />
+        </TabsContent>
+
+        <TabsContent value="teams" className="mt-6">
+          <TeamSettings staffMembers={staffMembers} />
+        </TabsContent>
+
+        <TabsContent value="routing" className="mt-6">
+          <RoutingSettings staffMembers={staffMembers} />
+        </TabsContent>
+
+        <TabsContent value="sla" className="mt-6">
+          <SlaSettings />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -1,19 +1,66 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAuth } from "@/contexts/AuthContext";
+import { useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { MfaStep, UserRole, useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EmailCodeSignIn } from "@/components/EmailCodeSignIn";
+import { MfaChallenge } from "@/components/MfaChallenge";
+import { MfaEnroll } from "@/components/MfaEnroll";
 import { useToast } from "@/hooks/use-toast";
-import { FileText } from "lucide-react";
+import { Clock, FileText, MailCheck, ShieldCheck } from "lucide-react";
 
 export default function Auth() {
   const [isLoading, setIsLoading] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const { user, mfaStep, registrationStatus, signIn, signUp, resendVerification, requestPasswordReset, signOut } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  // Set after sign-up, or when sign-in fails because the address isn't confirmed yet
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+
+  // Only follow same-site paths so the redirect can't send users elsewhere
+  const redirect = searchParams.get("redirect");
+  const returnTo = redirect?.startsWith("/") && !redirect.startsWith("//") ? redirect : "/";
+
+  // Follows mfaStep but stays open after enrolment so the backup codes can be saved
+  const [mfaPanel, setMfaPanel] = useState<MfaStep>(null);
+
+  useEffect(() => {
+    if (!user) setMfaPanel(null);
+    else if (mfaStep) setMfaPanel(mfaStep);
+  }, [user, mfaStep]);
+
+  const handleMfaComplete = () => {
+    setMfaPanel(null);
+    navigate(returnTo);
+  };
+
+  // Invitation links carry a one-time token that signs the invitee up with their invited role
+  const inviteToken = searchParams.get("invite");
+  const [invitation, setInvitation] = useState<{ email: string; role: UserRole } | null>(null);
+
+  useEffect(() => {
+    if (inviteToken) fetchInvitation(inviteToken);
+  }, [inviteToken]);
+
+  const fetchInvitation = async (token: string) => {
+    const { data, error } = await supabase.rpc("get_invitation", { _token: token });
+
+    if (error || !data?.[0]) {
+      toast({
+        title: "Invitation not valid",
+        description: "This invitation link has expired, been revoked or already been used. You can still sign up as a student.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setInvitation(data[0]);
+  };
 
   const handleSignIn = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -25,6 +72,8 @@ export default function Auth() {
 
     const { error } = await signIn(email, password);
 
+    if (error?.code === "email_not_confirmed") setUnverifiedEmail(email);
+
     if (error) {
       toast({
         title: "Error",
@@ -36,7 +85,7 @@ export default function Auth() {
         title: "Success",
         description: "Logged in successfully",
       });
-      navigate("/");
+      navigate(returnTo);
     }
 
     setIsLoading(false);
@@ -51,7 +100,56 @@ export default function Auth() {
     const password = formData.get("password") as string;
     const fullName = formData.get("fullName") as string;
 
-    const { error } = await signUp(email, password, fullName);
+    const { error } = await signUp(email, password, fullName, invitation ? inviteToken ?? undefined : undefined);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setUnverifiedEmail(email);
+
+      // Addresses outside the allowlist get an account but no access until an admin approves it
+      let allowed = true;
+      if (!invitation) {
+        const { data } = await supabase.rpc("is_signup_allowed", { _email: email });
+        allowed = data !== false;
+      }
+
+      toast(allowed
+        ? { title: "Success", description: "Account created! Check your email to verify your address, then sign in." }
+        : {
+            title: "Registration needs approval",
+            description: `${email} isn't on the list of allowed addresses, so an admin has to approve your registration before you can sign in. Verify your email in the meantime.`,
+          });
+    }
+
+    setIsLoading(false);
+  };
+
+  const handleResendVerification = async () => {
+    if (!unverifiedEmail) return;
+    setIsLoading(true);
+
+    const { error } = await resendVerification(unverifiedEmail);
+
+    toast(error
+      ? { title: "Error", description: error.message, variant: "destructive" }
+      : { title: "Email sent", description: `A new verification link is on its way to ${unverifiedEmail}` });
+
+    setIsLoading(false);
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get("email") as string;
+
+    const { error } = await requestPasswordReset(email);
 
     if (error) {
       toast({
@@ -60,9 +158,10 @@ export default function Auth() {
         variant: "destructive",
       });
     } else {
+      setShowForgotPassword(false);
       toast({
-        title: "Success",
-        description: "Account created successfully! You can now login.",
+        title: "Check your email",
+        description: "If an account exists for that address, it will receive a link to reset the password.",
       });
     }
 
@@ -82,79 +181,160 @@ export default function Auth() {
           <CardDescription>Complaint Management System</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
-            
-            <TabsContent value="login">
-              <form onSubmit={handleSignIn} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="login-email">Email</Label>
-                  <Input
-                    id="login-email"
-                    name="email"
-                    type="email"
-                    placeholder="your.email@example.com"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="login-password">Password</Label>
-                  <Input
-                    id="login-password"
-                    name="password"
-                    type="password"
-                    placeholder="••••••••"
-                    required
-                  />
+          {user && (registrationStatus === "pending" || registrationStatus === "rejected") ? (
+            <div className="space-y-4 text-center">
+              <div className="flex justify-center">
+                <Clock className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {registrationStatus === "pending"
+                  ? `Your registration for ${user.email} is waiting for an admin to approve it. You'll be able to sign in once it's approved.`
+                  : `Your registration for ${user.email} was not approved. Contact the Brototype team if you think this is a mistake.`}
+              </p>
+              <Button variant="ghost" className="w-full" onClick={signOut}>
+                Sign out
+              </Button>
+            </div>
+          ) : user && mfaPanel ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <ShieldCheck className="h-4 w-4 text-primary" />
+                {mfaPanel === "enroll" ? "Set up two-factor authentication" : "Two-factor authentication"}
+              </div>
+              {mfaPanel === "enroll"
+                ? <MfaEnroll key={user.id} onComplete={handleMfaComplete} />
+                : <MfaChallenge key={user.id} onComplete={handleMfaComplete} />}
+              <Button variant="ghost" className="w-full" onClick={signOut}>
+                Sign out
+              </Button>
+            </div>
+          ) : (
+            <Tabs defaultValue={inviteToken ? "signup" : "login"} className="w-full">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="login">Login</TabsTrigger>
+                <TabsTrigger value="code">Email Code</TabsTrigger>
+                <TabsTrigger value="signup">Sign Up</TabsTrigger>
+              </TabsList>
+
+              {unverifiedEmail && (
+                <div className="mt-4 flex items-center justify-between gap-2 rounded-md border border-border bg-muted/40 p-3 text-sm text-foreground">
+                  <span>Verify {unverifiedEmail} to sign in.</span>
+                  <Button variant="link" className="h-auto p-0" onClick={handleResendVerification} disabled={isLoading}>
+                    Resend email
+                  </Button>
                 </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Signing in..." : "Sign In"}
-                </Button>
-              </form>
-            </TabsContent>
+              )}
             
-            <TabsContent value="signup">
-              <form onSubmit={handleSignUp} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="signup-name">Full Name</Label>
-                  <Input
-                    id="signup-name"
-                    name="fullName"
-                    type="text"
-                    placeholder="John Doe"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-email">Email</Label>
-                  <Input
-                    id="signup-email"
-                    name="email"
-                    type="email"
-                    placeholder="your.email@example.com"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="signup-password">Password</Label>
-                  <Input
-                    id="signup-password"
-                    name="password"
-                    type="password"
-                    placeholder="••••••••"
-                    required
-                    minLength={6}
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={isLoading}>
-                  {isLoading ? "Creating account..." : "Create Account"}
-                </Button>
-              </form>
-            </TabsContent>
-          </Tabs>
+              <TabsContent value="login">
+                {showForgotPassword ? (
+                  <form onSubmit={handleForgotPassword} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="forgot-email">Email</Label>
+                      <Input
+                        id="forgot-email"
+                        name="email"
+                        type="email"
+                        placeholder="your.email@example.com"
+                        required
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      We'll email you a link to choose a new password.
+                    </p>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? "Sending..." : "Send Reset Link"}
+                    </Button>
+                    <Button type="button" variant="link" className="w-full" onClick={() => setShowForgotPassword(false)}>
+                      Back to sign in
+                    </Button>
+                  </form>
+                ) : (
+                  <form onSubmit={handleSignIn} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="login-email">Email</Label>
+                      <Input
+                        id="login-email"
+                        name="email"
+                        type="email"
+                        placeholder="your.email@example.com"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="login-password">Password</Label>
+                        <Button type="button" variant="link" className="h-auto p-0 text-sm" onClick={() => setShowForgotPassword(true)}>
+                          Forgot password?
+                        </Button>
+                      </div>
+                      <Input
+                        id="login-password"
+                        name="password"
+                        type="password"
+                        placeholder="••••••••"
+                        required
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? "Signing in..." : "Sign In"}
+                    </Button>
+                  </form>
+                )}
+              </TabsContent>
+
+              <TabsContent value="code">
+                <EmailCodeSignIn onSignedIn={() => navigate(returnTo)} />
+              </TabsContent>
+            
+              <TabsContent value="signup">
+                <form onSubmit={handleSignUp} className="space-y-4">
+                  {invitation && (
+                    <div className="flex items-center gap-2 rounded-md border border-primary/30 bg-primary/5 p-3 text-sm text-foreground">
+                      <MailCheck className="h-4 w-4 text-primary" />
+                      You've been invited to join as {invitation.role === "admin" ? "an admin" : invitation.role}.
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-name">Full Name</Label>
+                    <Input
+                      id="signup-name"
+                      name="fullName"
+                      type="text"
+                      placeholder="John Doe"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-email">Email</Label>
+                    <Input
+                      id="signup-email"
+                      name="email"
+                      type="email"
+                      placeholder="your.email@example.com"
+                      required
+                      key={invitation?.email}
+                      defaultValue={invitation?.email}
+                      readOnly={!!invitation}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="signup-password">Password</Label>
+                    <Input
+                      id="signup-password"
+                      name="password"
+                      type="password"
+                      placeholder="••••••••"
+                      required
+                      minLength={6}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={isLoading}>
+                    {isLoading ? "Creating account..." : "Create Account"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
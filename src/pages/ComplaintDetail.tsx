@@ -2,21 +2,36 @@ import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { StatusBadge } from "@/components/StatusBadge";
+import { SlaBadge, SlaFields } from "@/components/SlaBadge";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { TimelineEvent, ComplaintEvent } from "@/components/TimelineEvent";
+import { ResolutionFeedback, Feedback } from "@/components/ResolutionFeedback";
+import { AttachmentInput } from "@/components/AttachmentInput";
+import { AttachmentList } from "@/components/AttachmentList";
+import { Attachment, uploadAttachments } from "@/lib/attachments";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Send } from "lucide-react";
+import { useRealtime } from "@/hooks/use-realtime";
+import { ComplaintPriority, ComplaintStatus, PRIORITIES, REASON_STATUSES, STATUSES, priorityLabels, statusConfig } from "@/lib/complaints";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, Lock, Send } from "lucide-react";
 
-type Complaint = {
+type Complaint = SlaFields & {
   id: string;
   title: string;
   description: string;
   category: string;
-  status: "pending" | "in_progress" | "resolved";
+  status: ComplaintStatus;
+  priority: ComplaintPriority;
+  requested_priority: ComplaintPriority | null;
+  status_reason: string | null;
   created_at: string;
   student_id: string;
   assigned_to: string | null;
@@ -26,9 +41,15 @@ type Complaint = {
   } | null;
 };
 
+type StatusTransition = {
+  to_status: ComplaintStatus;
+  allowed_role: "student" | "staff" | "admin";
+};
+
 type Comment = {
   id: string;
   message: string;
+  is_internal: boolean;
   created_at: string;
   user_profile: {
     full_name: string;
@@ -37,20 +58,44 @@ type Comment = {
 
 export default function ComplaintDetail() {
   const { id } = useParams();
-  const { user, userRole } = useAuth();
+  const { user, userRole, can } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [complaint, setComplaint] = useState<Complaint | null>(null);
   const [comments, setComments] = useState<Comment[]>([]);
+  const [events, setEvents] = useState<ComplaintEvent[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [feedback, setFeedback] = useState<Feedback[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [pendingStatus, setPendingStatus] = useState<ComplaintStatus | null>(null);
+  const [statusReason, setStatusReason] = useState("");
   const [newComment, setNewComment] = useState("");
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [isInternal, setIsInternal] = useState(false);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
   useEffect(() => {
     fetchComplaintDetails();
     fetchComments();
+    fetchEvents();
+    fetchAttachments();
+    fetchFeedback();
   }, [id]);
 
+  useEffect(() => {
+    if (complaint) fetchTransitions(complaint.status);
+  }, [complaint?.status]);
+
+  // Keep the page live while others comment, reassign or change status
+  useRealtime(`complaint-${id}`, [
+    { table: "complaints", filter: `id=eq.${id}`, onChange: () => fetchComplaintDetails() },
+    { table: "comments", filter: `complaint_id=eq.${id}`, onChange: () => fetchComments() },
+    { table: "complaint_events", filter: `complaint_id=eq.${id}`, onChange: () => fetchEvents() },
+    { table: "attachments", filter: `complaint_id=eq.${id}`, onChange: () => fetchAttachments() },
+    { table: "complaint_feedback", filter: `complaint_id=eq.${id}`, onChange: () => fetchFeedback() },
+  ], !!id);
+
   const fetchComplaintDetails = async () => {
     try {
       const { data, error } = await supabase
@@ -114,23 +159,161 @@ export default function ComplaintDetail() {
       } else {
         setComments([]);
       }
+
+      // Everything on screen now counts as read for the unread badges on the dashboards
+      const { error: readError } = await supabase.rpc("mark_complaint_read", { _complaint_id: id! });
+      if (readError) throw readError;
     } catch (error: any) {
       console.error("Error fetching comments:", error);
     }
   };
 
-  const handleStatusUpdate = async (newStatus: "pending" | "in_progress" | "resolved") => {
+  const fetchEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("complaint_events")
+        .select("*")
+        .eq("complaint_id", id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      // Resolve actor and assignee names
+      const assignmentValues = (data || [])
+        .filter(e => e.field === "assigned_to")
+        .flatMap(e => [e.old_value, e.new_value]);
+      const userIds = [...new Set([...(data || []).map(e => e.actor_id), ...assignmentValues].filter(Boolean))] as string[];
+
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("id", userIds);
+
+      const nameMap = new Map(profiles?.map(p => [p.id, p.full_name]) || []);
+      setEvents((data || []).map(e => ({
+        ...e,
+        actor_name: e.actor_id ? nameMap.get(e.actor_id) || null : null,
+        old_label: e.field === "assigned_to" && e.old_value ? nameMap.get(e.old_value) || null : null,
+        new_label: e.field === "assigned_to" && e.new_value ? nameMap.get(e.new_value) || null : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching events:", error);
+    }
+  };
+
+  const fetchAttachments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("attachments")
+        .select("*")
+        .eq("complaint_id", id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setAttachments(data || []);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+    }
+  };
+
+  const fetchFeedback = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("complaint_feedback")
+        .select("id, outcome, rating, comment, created_at")
+        .eq("complaint_id", id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setFeedback(data || []);
+    } catch (error) {
+      console.error("Error fetching feedback:", error);
+    }
+  };
+
+  const fetchTransitions = async (fromStatus: ComplaintStatus) => {
+    try {
+      const { data, error } = await supabase
+        .from("complaint_status_transitions")
+        .select("to_status, allowed_role")
+        .eq("from_status", fromStatus);
+
+      if (error) throw error;
+      setTransitions(data || []);
+    } catch (error) {
+      console.error("Error fetching status transitions:", error);
+    }
+  };
+
+  const handleStatusUpdate = async (newStatus: ComplaintStatus, reason?: string) => {
+    try {
+      const { error } = await supabase.rpc("set_complaint_status", {
+        _complaint_id: id!,
+        _status: newStatus,
+        _reason: reason?.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Status updated successfully",
+      });
+
+      setPendingStatus(null);
+      setStatusReason("");
+      fetchComplaintDetails();
+      fetchEvents();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStatusSelect = (newStatus: ComplaintStatus) => {
+    if (REASON_STATUSES.includes(newStatus)) {
+      setPendingStatus(newStatus);
+    } else {
+      handleStatusUpdate(newStatus);
+    }
+  };
+
+  const handlePriorityUpdate = async (newPriority: ComplaintPriority) => {
     try {
       const { error } = await supabase
         .from("complaints")
-        .update({ status: newStatus })
+        .update({ priority: newPriority })
         .eq("id", id);
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Status updated successfully",
+        description: "Priority updated successfully",
+      });
+
+      fetchComplaintDetails();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      const { error } = await supabase.rpc("claim_complaint", { _complaint_id: id! });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Complaint claimed and assigned to you",
       });
 
       fetchComplaintDetails();
@@ -148,21 +331,36 @@ export default function ComplaintDetail() {
 
     setSubmitting(true);
     try {
-      const { error } = await supabase.from("comments").insert({
+      const { data: comment, error } = await supabase.from("comments").insert({
         complaint_id: id,
         user_id: user!.id,
         message: newComment.trim(),
-      });
+        is_internal: isInternal,
+      }).select("id").single();
 
       if (error) throw error;
 
-      toast({
-        title: "Success",
-        description: "Comment added successfully",
-      });
+      // The comment is saved by now, so a failed upload must not leave it in the box to be posted twice
+      try {
+        await uploadAttachments(commentFiles, { complaintId: id!, commentId: comment.id, userId: user!.id });
+
+        toast({
+          title: "Success",
+          description: isInternal ? "Internal note added" : "Comment added successfully",
+        });
+      } catch (uploadError: any) {
+        toast({
+          title: `${isInternal ? "Internal note" : "Comment"} posted, but some attachments failed to upload`,
+          description: uploadError.message,
+          variant: "destructive",
+        });
+      }
 
       setNewComment("");
+      setCommentFiles([]);
+      setIsInternal(false);
       fetchComments();
+      fetchAttachments();
     } catch (error: any) {
       toast({
         title: "Error",
@@ -174,15 +372,35 @@ export default function ComplaintDetail() {
     }
   };
 
-  const canUpdateStatus = userRole === "staff" || userRole === "admin";
+  // Team members can read their team's complaints but only the assignee can work on them
+  const canManage = can("assign_complaints") || (can("change_status") && complaint?.assigned_to === user?.id);
+
+  // The database enforces the same rules; this only hides moves the user can't make
+  const myTransitionRoles = [
+    userRole === "admin" && "admin",
+    canManage && userRole === "staff" && "staff",
+    complaint?.student_id === user?.id && "student",
+  ];
+  const allowedStatuses = [...new Set(
+    transitions.filter(t => myTransitionRoles.includes(t.allowed_role)).map(t => t.to_status)
+  )]
+    // Students answer a resolution through the feedback card instead
+    .filter(() => canManage || complaint?.status !== "resolved")
+    .sort((a, b) => STATUSES.indexOf(a) - STATUSES.indexOf(b));
+  const canPostInternal = can("view_internal_notes");
+  const canClaim = can("claim_complaints") && !!complaint && !complaint.assigned_to;
+  const complaintAttachments = attachments.filter(a => !a.comment_id);
+
+  // Merge comments and audit events into a single chronological timeline
+  const timeline = [
+    ...comments.map(comment => ({ kind: "comment" as const, created_at: comment.created_at, comment })),
+    ...events.map(event => ({ kind: "event" as const, created_at: event.created_at, event })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
 
   if (loading) {
     return (
-      <div className="min-h-screen bg-background">
-        <Navbar />
-        <main className="container mx-auto px-4 py-8">
-          <p className="text-center text-muted-foreground">Loading...</p>
-        </main>
+      <div className="container mx-auto px-4 py-8">
+        <p className="text-center text-muted-foreground">Loading...</p>
       </div>
     );
   }
@@ -190,105 +408,234 @@ export default function ComplaintDetail() {
   if (!complaint) return null;
 
   return (
-    <div className="min-h-screen bg-background">
-      <Navbar />
-      <main className="container mx-auto px-4 py-8 max-w-4xl">
-        <Button
-          variant="ghost"
-          onClick={() => navigate("/")}
-          className="mb-6"
-        >
-          <ArrowLeft className="mr-2 h-4 w-4" />
-          Back to Dashboard
-        </Button>
-
-        <Card className="mb-6">
-          <CardHeader>
-            <div className="flex justify-between items-start gap-4">
-              <div className="flex-1">
-                <CardTitle className="text-2xl">{complaint.title}</CardTitle>
-                <CardDescription className="mt-2">
-                  Submitted by {complaint.student_profile?.full_name || "Unknown"} ({complaint.student_profile?.email || "N/A"}) •{" "}
-                  {new Date(complaint.created_at).toLocaleString()} • {complaint.category}
-                </CardDescription>
-              </div>
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <Button
+        variant="ghost"
+        onClick={() => navigate("/")}
+        className="mb-6"
+      >
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Dashboard
+      </Button>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="flex justify-between items-start gap-4">
+            <div className="flex-1">
+              <CardTitle className="text-2xl">{complaint.title}</CardTitle>
+              <CardDescription className="mt-2">
+                Submitted by {complaint.student_profile?.full_name || "Unknown"} ({complaint.student_profile?.email || "N/A"}) •{" "}
+                {new Date(complaint.created_at).toLocaleString()} • {complaint.category}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <SlaBadge complaint={complaint} />
+              <PriorityBadge priority={complaint.priority} />
               <StatusBadge status={complaint.status} />
             </div>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div>
+              <h3 className="font-semibold mb-2">Description</h3>
+              <p className="text-muted-foreground whitespace-pre-wrap">{complaint.description}</p>
+            </div>
+
+            {complaint.status_reason && (
+              <div className="p-3 rounded-md border border-border bg-muted/50">
+                <h3 className="font-semibold text-sm mb-1">{statusConfig[complaint.status].label}</h3>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{complaint.status_reason}</p>
+              </div>
+            )}
+
+            {complaintAttachments.length > 0 && (
               <div>
-                <h3 className="font-semibold mb-2">Description</h3>
-                <p className="text-muted-foreground whitespace-pre-wrap">{complaint.description}</p>
+                <h3 className="font-semibold mb-2">Attachments</h3>
+                <AttachmentList attachments={complaintAttachments} />
+              </div>
+            )}
+
+            {canClaim && (
+              <div className="pt-4 border-t flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">This complaint is waiting in your team's queue</p>
+                <Button onClick={handleClaim}>Claim Complaint</Button>
               </div>
+            )}
 
-              {canUpdateStatus && (
-                <div className="pt-4 border-t">
+            {(canManage || allowedStatuses.length > 0) && (
+              <div className="pt-4 border-t flex flex-wrap gap-6">
+                <div>
                   <h3 className="font-semibold mb-2">Update Status</h3>
-                  <Select
-                    value={complaint.status}
-                    onValueChange={handleStatusUpdate}
-                  >
-                    <SelectTrigger className="w-[200px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="in_progress">In Progress</SelectItem>
-                      <SelectItem value="resolved">Resolved</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {allowedStatuses.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No further status changes are available</p>
+                  ) : (
+                    <Select
+                      value=""
+                      onValueChange={(value) => handleStatusSelect(value as ComplaintStatus)}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue placeholder="Move to..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {allowedStatuses.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {statusConfig[status].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {pendingStatus && (
+                    <div className="mt-3 space-y-2 max-w-md">
+                      <Textarea
+                        placeholder={pendingStatus === "needs_info"
+                          ? "What information do you need from the student?"
+                          : `Why is this complaint ${statusConfig[pendingStatus].label.toLowerCase()}?`}
+                        value={statusReason}
+                        onChange={(e) => setStatusReason(e.target.value)}
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleStatusUpdate(pendingStatus, statusReason)}
+                          disabled={pendingStatus === "rejected" && !statusReason.trim()}
+                        >
+                          Move to {statusConfig[pendingStatus].label}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => {
+                            setPendingStatus(null);
+                            setStatusReason("");
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </div>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle>Comments & Updates</CardTitle>
-          </CardHeader>
-          <CardContent>
+                {canManage && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Priority</h3>
+                    <Select
+                      value={complaint.priority}
+                      onValueChange={(value) => handlePriorityUpdate(value as ComplaintPriority)}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PRIORITIES.map((priority) => (
+                          <SelectItem key={priority} value={priority}>
+                            {priorityLabels[priority]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {complaint.requested_priority && complaint.requested_priority !== complaint.priority && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Student suggested {priorityLabels[complaint.requested_priority]}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <ResolutionFeedback
+        complaintId={complaint.id}
+        resolvedAt={complaint.resolved_at}
+        status={complaint.status}
+        feedback={feedback}
+        isStudent={complaint.student_id === user?.id}
+        onSubmitted={() => {
+          fetchComplaintDetails();
+          fetchFeedback();
+        }}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Comments & Updates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
             <div className="space-y-4">
-              {comments.length === 0 ? (
-                <p className="text-sm text-muted-foreground text-center py-4">
-                  No comments yet. Be the first to add one!
-                </p>
-              ) : (
-                <div className="space-y-4">
-                  {comments.map((comment) => (
-                    <div key={comment.id} className="border-l-2 border-primary/20 pl-4">
-                      <div className="flex justify-between items-start mb-1">
-                        <span className="font-semibold text-sm">{comment.user_profile?.full_name || "Unknown"}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {new Date(comment.created_at).toLocaleString()}
-                        </span>
+              {timeline.map((item) =>
+                item.kind === "event" ? (
+                  <TimelineEvent key={item.event.id} event={item.event} />
+                ) : (
+                  <div
+                    key={item.comment.id}
+                    className={cn(
+                      "border-l-2 pl-4",
+                      item.comment.is_internal ? "border-warning bg-warning/10 rounded-r-md py-2 pr-2" : "border-primary/20"
+                    )}
+                  >
+                    <div className="flex justify-between items-start mb-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-sm">{item.comment.user_profile?.full_name || "Unknown"}</span>
+                        {item.comment.is_internal && (
+                          <Badge variant="outline" className="gap-1 border-warning text-warning">
+                            <Lock className="h-3 w-3" />
+                            Internal
+                          </Badge>
+                        )}
                       </div>
-                      <p className="text-sm text-muted-foreground whitespace-pre-wrap">
-                        {comment.message}
-                      </p>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(item.comment.created_at).toLocaleString()}
+                      </span>
                     </div>
-                  ))}
-                </div>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                      {item.comment.message}
+                    </p>
+                    <AttachmentList attachments={attachments.filter(a => a.comment_id === item.comment.id)} />
+                  </div>
+                )
               )}
+            </div>
+            {timeline.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No comments yet. Be the first to add one!
+              </p>
+            )}
 
-              <div className="pt-4 border-t">
-                <Textarea
-                  placeholder="Add a comment or update..."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  rows={3}
-                  className="mb-2"
-                />
+            <div className="pt-4 border-t">
+              <Textarea
+                placeholder={isInternal ? "Add an internal note for staff..." : "Add a comment or update..."}
+                value={newComment}
+                onChange={(e) => setNewComment(e.target.value)}
+                rows={3}
+                className="mb-2"
+              />
+              <div className="mb-2">
+                <AttachmentInput files={commentFiles} onChange={setCommentFiles} disabled={submitting} />
+              </div>
+              <div className="flex items-center gap-4">
                 <Button onClick={handleAddComment} disabled={submitting || !newComment.trim()}>
-                  <Send className="mr-2 h-4 w-4" />
-                  {submitting ? "Sending..." : "Add Comment"}
+                  {isInternal ? <Lock className="mr-2 h-4 w-4" /> : <Send className="mr-2 h-4 w-4" />}
+                  {submitting ? "Sending..." : isInternal ? "Add Internal Note" : "Add Comment"}
                 </Button>
+                {canPostInternal && (
+                  <div className="flex items-center gap-2">
+                    <Switch id="internal-note" checked={isInternal} onCheckedChange={setIsInternal} />
+                    <Label htmlFor="internal-note" className="text-sm text-muted-foreground">
+                      Internal note (hidden from the student)
+                    </Label>
+                  </div>
+                )}
               </div>
             </div>
-          </CardContent>
-        </Card>
-      </main>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,36 @@
+import { Link } from "react-router-dom";
+import { UserRole, useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { ROLE_HOME } from "@/lib/navigation";
+
+interface ForbiddenProps {
+  allowedRoles?: UserRole[];
+}
+
+const Forbidden = ({ allowedRoles = [] }: ForbiddenProps) => {
+  const { userRole, userRoles, switchRole } = useAuth();
+
+  // Users holding a role that may see this page can switch to it in place
+  const switchTo = userRoles.find(role => allowedRoles.includes(role));
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted">
+      <div className="text-center">
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-4 text-xl text-muted-foreground">You don't have access to this page</p>
+        {switchTo && (
+          <Button className="mb-4 capitalize" onClick={() => switchRole(switchTo)}>
+            Switch to {switchTo}
+          </Button>
+        )}
+        <div>
+          <Link to={userRole ? ROLE_HOME[userRole] : "/"} className="text-primary underline hover:text-primary/90">
+            Go to your dashboard
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
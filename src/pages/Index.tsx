@@ -1,42 +1,12 @@
-import { useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import StudentDashboard from "./StudentDashboard";
-import StaffDashboard from "./StaffDashboard";
-import AdminDashboard from "./AdminDashboard";
+import { ROLE_HOME } from "@/lib/navigation";
 
+// Rendered behind RequireRole, so there is always a signed-in user with a role
 const Index = () => {
-  const { user, userRole, loading } = useAuth();
-  const navigate = useNavigate();
+  const { userRole } = useAuth();
 
-  useEffect(() => {
-    if (!loading && !user) {
-      navigate("/auth");
-    }
-  }, [user, loading, navigate]);
-
-  if (loading) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-background">
-        <div className="text-center">
-          <p className="text-xl text-muted-foreground">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!user) return null;
-
-  // Route to appropriate dashboard based on role
-  switch (userRole) {
-    case "admin":
-      return <AdminDashboard />;
-    case "staff":
-      return <StaffDashboard />;
-    case "student":
-    default:
-      return <StudentDashboard />;
-  }
+  return <Navigate to={ROLE_HOME[userRole ?? "student"]} replace />;
 };
 
 export default Index;
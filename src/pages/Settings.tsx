@@ -0,0 +1,20 @@
+import { ProfileSettings } from "@/components/ProfileSettings";
+import { PasswordSettings } from "@/components/PasswordSettings";
+import { NotificationPreferences } from "@/components/NotificationPreferences";
+
+export default function Settings() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-foreground">Account Settings</h2>
+        <p className="text-muted-foreground mt-1">Manage your profile, password and notifications</p>
+      </div>
+
+      <div className="space-y-6 max-w-3xl">
+        <ProfileSettings />
+        <PasswordSettings />
+        <NotificationPreferences />
+      </div>
+    </div>
+  );
+}
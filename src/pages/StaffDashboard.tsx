@@ -1,65 +1,126 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { StatusBadge } from "@/components/StatusBadge";
+import { SlaBadge, SlaFields } from "@/components/SlaBadge";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { ComplaintBoard } from "@/components/ComplaintBoard";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { useToast } from "@/hooks/use-toast";
-import { MessageSquare } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { useRealtime } from "@/hooks/use-realtime";
+import { ComplaintPriority, ComplaintStatus, PRIORITIES, comparePriority, isOpenStatus, priorityLabels } from "@/lib/complaints";
+import { Columns3, List, MessageSquare } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 
-type Complaint = {
+type Complaint = SlaFields & {
   id: string;
   title: string;
   description: string;
   category: string;
-  status: "pending" | "in_progress" | "resolved";
+  status: ComplaintStatus;
+  priority: ComplaintPriority;
   created_at: string;
+  unread_comments: number;
   student_profile: {
     full_name: string;
   } | null;
 };
 
+type View = "list" | "board";
+
+const VIEW_KEY = "bcms-staff-view";
+
 export default function StaffDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [queue, setQueue] = useState<Complaint[]>([]);
+  const [teamCategories, setTeamCategories] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
+  const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const [view, setView] = useState<View>(() => localStorage.getItem(VIEW_KEY) === "board" ? "board" : "list");
 
   useEffect(() => {
-    fetchAssignedComplaints();
+    fetchComplaints();
   }, [user]);
 
-  const fetchAssignedComplaints = async () => {
+  // Unfiltered so complaints reassigned away from this user also trigger a refresh
+  useRealtime(`staff-complaints-${user?.id}`, [
+    { table: "complaints", onChange: () => fetchComplaints() },
+    { table: "comments", onChange: () => fetchComplaints() },
+  ], !!user);
+
+  const fetchComplaints = async () => {
     if (!user) return;
 
     try {
-      const { data, error } = await supabase
+      const { data: memberships, error: membershipError } = await supabase
+        .from("team_members")
+        .select("team_id")
+        .eq("user_id", user.id);
+
+      if (membershipError) throw membershipError;
+
+      const teamIds = memberships?.map(m => m.team_id) || [];
+      const { data: teamCategories, error: categoryError } = await supabase
+        .from("team_categories")
+        .select("category")
+        .in("team_id", teamIds);
+
+      if (categoryError) throw categoryError;
+
+      const categories = teamCategories?.map(c => c.category) || [];
+      setTeamCategories(categories);
+
+      const { data: assigned, error } = await supabase
         .from("complaints")
         .select("*")
         .eq("assigned_to", user.id)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      
+
+      const { data: queueData, error: queueError } = await supabase
+        .from("complaints")
+        .select("*")
+        .is("assigned_to", null)
+        .in("category", categories)
+        .order("created_at", { ascending: false });
+
+      if (queueError) throw queueError;
+      const unassigned = queueData?.filter(c => isOpenStatus(c.status));
+
       // Fetch student profiles separately
-      if (data && data.length > 0) {
+      const data = [...(assigned || []), ...(unassigned || [])];
+      if (data.length > 0) {
         const studentIds = data.map(c => c.student_id);
         const { data: profiles } = await supabase
           .from("profiles")
           .select("id, full_name")
           .in("id", studentIds);
         
+        const { data: unreadCounts } = await supabase
+          .rpc("unread_comment_counts", { _complaint_ids: (assigned || []).map(c => c.id) });
+
         const profileMap = new Map(profiles?.map(p => [p.id, p]) || []);
-        const complaintsWithProfiles = data.map(c => ({
+        const unreadMap = new Map(unreadCounts?.map(u => [u.complaint_id, u.unread]) || []);
+        const withProfile = (c: typeof data[number]) => ({
           ...c,
+          unread_comments: unreadMap.get(c.id) || 0,
           student_profile: profileMap.get(c.student_id) || null
-        })) as any;
+        });
         
-        setComplaints(complaintsWithProfiles);
+        setComplaints((assigned || []).map(withProfile) as Complaint[]);
+        setQueue((unassigned || []).map(withProfile) as Complaint[]);
       } else {
         setComplaints([]);
+        setQueue([]);
       }
     } catch (error: any) {
       toast({
@@ -72,56 +133,200 @@ export default function StaffDashboard() {
     }
   };
 
+  const handleClaim = async (complaintId: string) => {
+    try {
+      const { error } = await supabase.rpc("claim_complaint", { _complaint_id: complaintId });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Complaint claimed and assigned to you",
+      });
+
+      fetchComplaints();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Most urgent first, then oldest first within the same priority
+  const prioritize = (list: Complaint[]) => list
+    .filter(c => priorityFilter === "all" || c.priority === priorityFilter)
+    .sort((a, b) =>
+      comparePriority(a.priority, b.priority) ||
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+    );
+
+  const visibleComplaints = prioritize(complaints);
+  const visibleQueue = prioritize(queue);
+
+  const handleViewChange = (value: string) => {
+    if (value !== "list" && value !== "board") return;
+    localStorage.setItem(VIEW_KEY, value);
+    setView(value);
+  };
+
   return (
-    <div className="min-h-screen bg-background">
-      <Navbar />
-      <main className="container mx-auto px-4 py-8">
-        <div className="mb-8">
-          <h2 className="text-3xl font-bold text-foreground">Assigned Complaints</h2>
-          <p className="text-muted-foreground mt-1">Review and resolve complaints assigned to you</p>
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">Staff Dashboard</h2>
+          <p className="text-muted-foreground mt-1">Work your assigned complaints and pick up new ones from your team queue</p>
         </div>
+        <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Priorities</SelectItem>
+            {PRIORITIES.map((priority) => (
+              <SelectItem key={priority} value={priority}>
+                {priorityLabels[priority]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
 
-        {loading ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading complaints...</p>
+      {loading ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Loading complaints...</p>
+        </div>
+      ) : (
+        <Tabs
+          value={searchParams.get("tab") ?? "assigned"}
+          onValueChange={(value) => setSearchParams(value === "assigned" ? {} : { tab: value }, { replace: true })}
+          className="w-full"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <TabsList>
+              <TabsTrigger value="assigned">
+                Assigned to Me ({complaints.length})
+              </TabsTrigger>
+              <TabsTrigger value="queue">
+                Team Queue ({queue.length})
+              </TabsTrigger>
+            </TabsList>
+            <ToggleGroup type="single" size="sm" value={view} onValueChange={handleViewChange}>
+              <ToggleGroupItem value="list" aria-label="List view">
+                <List className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="board" aria-label="Board view">
+                <Columns3 className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
           </div>
-        ) : complaints.length === 0 ? (
-          <Card>
-            <CardContent className="text-center py-12">
-              <p className="text-muted-foreground">No complaints assigned to you yet.</p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid gap-4">
-            {complaints.map((complaint) => (
-              <Card
-                key={complaint.id}
-                className="hover:shadow-medium transition-shadow cursor-pointer"
-                onClick={() => navigate(`/complaint/${complaint.id}`)}
-              >
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1">
-                      <CardTitle className="text-lg">{complaint.title}</CardTitle>
-                      <CardDescription className="mt-1">
-                        From: {complaint.student_profile?.full_name || "Unknown"} • {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
-                      </CardDescription>
-                    </div>
-                    <StatusBadge status={complaint.status} />
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground line-clamp-2">{complaint.description}</p>
-                  <div className="mt-4 flex items-center text-sm text-muted-foreground">
-                    <MessageSquare className="h-4 w-4 mr-1" />
-                    View details & update
-                  </div>
+
+          <TabsContent value="assigned" className="mt-6">
+            {view === "board" ? (
+              <ComplaintBoard complaints={visibleComplaints} onStatusChanged={fetchComplaints} />
+            ) : visibleComplaints.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <p className="text-muted-foreground">
+                    {complaints.length === 0 ? "No complaints assigned to you yet." : "No complaints match this priority."}
+                  </p>
                 </CardContent>
               </Card>
-            ))}
-          </div>
-        )}
-      </main>
+            ) : (
+              <div className="grid gap-4">
+                {visibleComplaints.map((complaint) => (
+                  <Card
+                    key={complaint.id}
+                    className="hover:shadow-medium transition-shadow cursor-pointer"
+                    onClick={() => navigate(`/complaint/${complaint.id}`)}
+                  >
+                    <CardHeader>
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <CardTitle className="text-lg">{complaint.title}</CardTitle>
+                          <CardDescription className="mt-1">
+                            From: {complaint.student_profile?.full_name || "Unknown"} • {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
+                          </CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <SlaBadge complaint={complaint} />
+                          <PriorityBadge priority={complaint.priority} />
+                          <StatusBadge status={complaint.status} />
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-muted-foreground line-clamp-2">{complaint.description}</p>
+                      <div className="mt-4 flex items-center text-sm text-muted-foreground">
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        View details & update
+                        {complaint.unread_comments > 0 && (
+                          <span className="ml-2 font-medium text-primary">
+                            • {complaint.unread_comments} new {complaint.unread_comments === 1 ? "comment" : "comments"}
+                          </span>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="queue" className="mt-6">
+            {visibleQueue.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <p className="text-muted-foreground">
+                    {teamCategories.length === 0
+                      ? "You're not on a team that owns any categories yet."
+                      : queue.length === 0
+                        ? "Your team's queue is empty."
+                        : "No complaints match this priority."}
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4">
+                {visibleQueue.map((complaint) => (
+                  <Card key={complaint.id}>
+                    <CardHeader>
+                      <div className="flex justify-between items-start gap-4">
+                        <div className="flex-1">
+                          <CardTitle className="text-lg">{complaint.title}</CardTitle>
+                          <CardDescription className="mt-1">
+                            From: {complaint.student_profile?.full_name || "Unknown"} • {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
+                          </CardDescription>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <SlaBadge complaint={complaint} />
+                          <PriorityBadge priority={complaint.priority} />
+                          <StatusBadge status={complaint.status} />
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="text-sm text-muted-foreground mb-4 line-clamp-2">{complaint.description}</p>
+                      <div className="flex gap-2">
+                        <Button onClick={() => handleClaim(complaint.id)}>
+                          Claim
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={() => navigate(`/complaint/${complaint.id}`)}
+                        >
+                          View Details
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      )}
     </div>
   );
 }
@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
-import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -10,16 +9,23 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { StatusBadge } from "@/components/StatusBadge";
+import { SlaBadge, SlaFields } from "@/components/SlaBadge";
+import { PriorityBadge } from "@/components/PriorityBadge";
+import { AttachmentInput } from "@/components/AttachmentInput";
+import { uploadAttachments } from "@/lib/attachments";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { ComplaintPriority, ComplaintStatus, PRIORITIES, priorityLabels } from "@/lib/complaints";
 import { Plus, MessageSquare } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 
-type Complaint = {
+type Complaint = SlaFields & {
   id: string;
   title: string;
   description: string;
   category: string;
-  status: "pending" | "in_progress" | "resolved";
+  status: ComplaintStatus;
+  priority: ComplaintPriority;
   created_at: string;
 };
 
@@ -31,11 +37,16 @@ export default function StudentDashboard() {
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
 
   useEffect(() => {
     fetchComplaints();
   }, [user]);
 
+  useRealtime(`student-complaints-${user?.id}`, [
+    { table: "complaints", filter: `student_id=eq.${user?.id}`, onChange: () => fetchComplaints() },
+  ], !!user);
+
   const fetchComplaints = async () => {
     if (!user) return;
 
@@ -67,24 +78,37 @@ export default function StudentDashboard() {
     const title = formData.get("title") as string;
     const description = formData.get("description") as string;
     const category = formData.get("category") as "academic" | "administrative" | "infrastructure" | "technical" | "other";
+    const requestedPriority = formData.get("priority") as ComplaintPriority;
 
     try {
-      const { error } = await supabase.from("complaints").insert([{
+      const { data: complaint, error } = await supabase.from("complaints").insert([{
         student_id: user!.id,
         title,
         description,
         category,
+        requested_priority: requestedPriority,
         status: "pending" as const,
-      }]);
+      }]).select("id").single();
 
       if (error) throw error;
 
-      toast({
-        title: "Success",
-        description: "Complaint submitted successfully",
-      });
+      try {
+        await uploadAttachments(files, { complaintId: complaint.id, userId: user!.id });
+
+        toast({
+          title: "Success",
+          description: "Complaint submitted successfully",
+        });
+      } catch (uploadError: any) {
+        toast({
+          title: "Complaint submitted, but some attachments failed to upload",
+          description: uploadError.message,
+          variant: "destructive",
+        });
+      }
 
       setDialogOpen(false);
+      setFiles([]);
       fetchComplaints();
     } catch (error: any) {
       toast({
@@ -98,117 +122,140 @@ export default function StudentDashboard() {
   };
 
   return (
-    <div className="min-h-screen bg-background">
-      <Navbar />
-      <main className="container mx-auto px-4 py-8">
-        <div className="flex justify-between items-center mb-8">
-          <div>
-            <h2 className="text-3xl font-bold text-foreground">My Complaints</h2>
-            <p className="text-muted-foreground mt-1">Track and manage your submitted complaints</p>
-          </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                New Complaint
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[525px]">
-              <form onSubmit={handleSubmitComplaint}>
-                <DialogHeader>
-                  <DialogTitle>Submit New Complaint</DialogTitle>
-                  <DialogDescription>
-                    Describe your issue and we'll route it to the appropriate staff member.
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="grid gap-4 py-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="title">Title</Label>
-                    <Input
-                      id="title"
-                      name="title"
-                      placeholder="Brief description of the issue"
-                      required
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="category">Category</Label>
-                    <Select name="category" required>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a category" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="academic">Academic</SelectItem>
-                        <SelectItem value="infrastructure">Infrastructure</SelectItem>
-                        <SelectItem value="administrative">Administrative</SelectItem>
-                        <SelectItem value="technical">Technical</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="description">Description</Label>
-                    <Textarea
-                      id="description"
-                      name="description"
-                      placeholder="Provide detailed information about your complaint"
-                      rows={4}
-                      required
-                    />
-                  </div>
-                </div>
-                <DialogFooter>
-                  <Button type="submit" disabled={submitting}>
-                    {submitting ? "Submitting..." : "Submit Complaint"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </DialogContent>
-          </Dialog>
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-foreground">My Complaints</h2>
+          <p className="text-muted-foreground mt-1">Track and manage your submitted complaints</p>
         </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button>
+              <Plus className="mr-2 h-4 w-4" />
+              New Complaint
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[525px]">
+            <form onSubmit={handleSubmitComplaint}>
+              <DialogHeader>
+                <DialogTitle>Submit New Complaint</DialogTitle>
+                <DialogDescription>
+                  Describe your issue and we'll route it to the appropriate staff member.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 py-4">
+                <div className="space-y-2">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    name="title"
+                    placeholder="Brief description of the issue"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="category">Category</Label>
+                  <Select name="category" required>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="academic">Academic</SelectItem>
+                      <SelectItem value="infrastructure">Infrastructure</SelectItem>
+                      <SelectItem value="administrative">Administrative</SelectItem>
+                      <SelectItem value="technical">Technical</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="priority">Suggested Priority</Label>
+                  <Select name="priority" defaultValue="normal">
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRIORITIES.map((priority) => (
+                        <SelectItem key={priority} value={priority}>
+                          {priorityLabels[priority]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Staff will review and confirm the priority
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    name="description"
+                    placeholder="Provide detailed information about your complaint"
+                    rows={4}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Attachments</Label>
+                  <AttachmentInput files={files} onChange={setFiles} disabled={submitting} />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? "Submitting..." : "Submit Complaint"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
 
-        {loading ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Loading complaints...</p>
-          </div>
-        ) : complaints.length === 0 ? (
-          <Card>
-            <CardContent className="text-center py-12">
-              <p className="text-muted-foreground">No complaints submitted yet.</p>
-              <p className="text-sm text-muted-foreground mt-2">Click "New Complaint" to get started.</p>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid gap-4">
-            {complaints.map((complaint) => (
-              <Card
-                key={complaint.id}
-                className="hover:shadow-medium transition-shadow cursor-pointer"
-                onClick={() => navigate(`/complaint/${complaint.id}`)}
-              >
-                <CardHeader>
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1">
-                      <CardTitle className="text-lg">{complaint.title}</CardTitle>
-                      <CardDescription className="mt-1">
-                        {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
-                      </CardDescription>
-                    </div>
-                    <StatusBadge status={complaint.status} />
+      {loading ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Loading complaints...</p>
+        </div>
+      ) : complaints.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">No complaints submitted yet.</p>
+            <p className="text-sm text-muted-foreground mt-2">Click "New Complaint" to get started.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {complaints.map((complaint) => (
+            <Card
+              key={complaint.id}
+              className="hover:shadow-medium transition-shadow cursor-pointer"
+              onClick={() => navigate(`/complaint/${complaint.id}`)}
+            >
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div className="flex-1">
+                    <CardTitle className="text-lg">{complaint.title}</CardTitle>
+                    <CardDescription className="mt-1">
+                      {new Date(complaint.created_at).toLocaleDateString()} • {complaint.category}
+                    </CardDescription>
                   </div>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground line-clamp-2">{complaint.description}</p>
-                  <div className="mt-4 flex items-center text-sm text-muted-foreground">
-                    <MessageSquare className="h-4 w-4 mr-1" />
-                    View details
+                  <div className="flex items-center gap-2">
+                    <SlaBadge complaint={complaint} />
+                    <PriorityBadge priority={complaint.priority} />
+                    <StatusBadge status={complaint.status} />
                   </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
-      </main>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-muted-foreground line-clamp-2">{complaint.description}</p>
+                <div className="mt-4 flex items-center text-sm text-muted-foreground">
+                  <MessageSquare className="h-4 w-4 mr-1" />
+                  View details
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
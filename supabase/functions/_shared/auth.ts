@@ -0,0 +1,52 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Client that acts as the signed-in caller, so RLS and permission checks apply to them
+export const callerClient = (req: Request) =>
+  createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+// Client with the service role, for auth admin calls and writes RLS would block
+export const serviceClient = () =>
+  createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+const USERS_PAGE_SIZE = 1000;
+
+// Every sign-in email address, read from auth rather than profiles because users can edit
+// the copy on their profile
+export const authEmails = async (admin: ReturnType<typeof serviceClient>) => {
+  const emails = new Set<string>();
+
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE });
+    if (error) throw error;
+
+    data.users.forEach(user => {
+      if (user.email) emails.add(user.email.toLowerCase());
+    });
+    if (data.users.length < USERS_PAGE_SIZE) return emails;
+  }
+};
+
+// Returns the caller's user id, or null when they are signed out, lack the permission or
+// haven't passed their second factor. Functions write with the service role, which skips
+// the MFA policies, so the check has to happen here.
+export const authorize = async (req: Request, permission: string) => {
+  const caller = callerClient(req);
+  const { data: { user } } = await caller.auth.getUser();
+  if (!user) return null;
+
+  const { data: allowed, error } = await caller.rpc("has_permission", {
+    _user_id: user.id,
+    _permission: permission,
+  });
+
+  if (error || !allowed) return null;
+
+  const { data: mfaPassed, error: mfaError } = await caller.rpc("mfa_satisfied");
+  if (mfaError || !mfaPassed) return null;
+
+  return user.id;
+};
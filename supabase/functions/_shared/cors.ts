@@ -0,0 +1,14 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Auth and PostgREST errors are plain objects with a message rather than Error instances
+export const errorMessage = (error: unknown) =>
+  (error as { message?: string } | null)?.message ?? String(error);
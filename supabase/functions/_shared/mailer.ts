@@ -0,0 +1,33 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+type Mail = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Defaults point at the local Inbucket mail catcher; production sets the SMTP_* secrets
+export const sendMail = async ({ to, subject, text, html }: Mail) => {
+  const username = Deno.env.get("SMTP_USER");
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") ?? "host.docker.internal",
+      port: Number(Deno.env.get("SMTP_PORT") ?? 54325),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username ? { username, password: Deno.env.get("SMTP_PASS") ?? "" } : undefined,
+    },
+  });
+
+  try {
+    await client.send({
+      from: Deno.env.get("SMTP_FROM") ?? "Brototype CMS <no-reply@brototype.local>",
+      to,
+      subject,
+      content: text,
+      html,
+    });
+  } finally {
+    await client.close();
+  }
+};
@@ -0,0 +1,141 @@
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { authEmails, authorize, serviceClient } from "../_shared/auth.ts";
+
+type AppRole = "student" | "staff" | "admin";
+
+type ImportRow = {
+  full_name: string;
+  email: string;
+  role: string;
+  batch?: string | null;
+};
+
+type RowResult = {
+  row: number;
+  email: string;
+  status: "ready" | "created" | "error";
+  errors: string[];
+};
+
+const ROLES: AppRole[] = ["student", "staff", "admin"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_ROWS = 1000;
+
+// Creates accounts from an admin's CSV import. With dry_run set nothing is written and each
+// row comes back as "ready" or "error", so the admin can fix the file before importing it.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const callerId = await authorize(req, "manage_users");
+    if (!callerId) {
+      return jsonResponse({ error: "You need the manage users permission and an authenticator sign-in to import users" }, 403);
+    }
+
+    const { rows, dry_run: dryRun = true, redirect_to: redirectTo } = await req.json() as {
+      rows: ImportRow[];
+      dry_run?: boolean;
+      redirect_to?: string;
+    };
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return jsonResponse({ error: "The file has no rows to import" }, 400);
+    }
+    if (rows.length > MAX_ROWS) {
+      return jsonResponse({ error: `Import at most ${MAX_ROWS} users at a time` }, 400);
+    }
+
+    const admin = serviceClient();
+    const normalized = rows.map(row => ({
+      full_name: String(row.full_name ?? "").trim(),
+      email: String(row.email ?? "").trim().toLowerCase(),
+      role: String(row.role ?? "").trim().toLowerCase() || "student",
+      batch: String(row.batch ?? "").trim() || null,
+    }));
+
+    const existingEmails = await authEmails(admin);
+
+    const firstRowByEmail = new Map<string, number>();
+    const results: RowResult[] = normalized.map((row, index) => {
+      const errors: string[] = [];
+      if (!row.full_name) errors.push("Full name is missing");
+      if (!EMAIL_PATTERN.test(row.email)) errors.push("Email is not valid");
+      if (!ROLES.includes(row.role as AppRole)) errors.push(`Role must be one of ${ROLES.join(", ")}`);
+      if (existingEmails.has(row.email)) errors.push("An account with this email already exists");
+
+      const firstRow = firstRowByEmail.get(row.email);
+      if (row.email && firstRow !== undefined) {
+        errors.push(`Duplicate of row ${firstRow + 1}`);
+      } else if (row.email) {
+        firstRowByEmail.set(row.email, index);
+      }
+
+      return { row: index + 1, email: row.email, status: errors.length > 0 ? "error" : "ready", errors };
+    });
+
+    if (dryRun) {
+      return jsonResponse({ results });
+    }
+
+    for (const result of results) {
+      if (result.status !== "ready") continue;
+      const row = normalized[result.row - 1];
+
+      try {
+        // Sends the invitation email; locally it lands in the Inbucket mail catcher
+        const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(row.email, {
+          data: { full_name: row.full_name, batch: row.batch },
+          redirectTo,
+        });
+
+        if (inviteError) throw inviteError;
+        const userId = invited.user.id;
+
+        // handle_new_user normally creates both rows; write them here too so the import
+        // doesn't depend on the trigger having run
+        const { error: profileError } = await admin
+          .from("profiles")
+          .upsert({ id: userId, full_name: row.full_name, email: row.email, batch: row.batch });
+
+        if (profileError) throw profileError;
+
+        const { error: roleError } = await admin
+          .from("user_roles")
+          .upsert({ user_id: userId, role: row.role }, { onConflict: "user_id,role", ignoreDuplicates: true });
+
+        if (roleError) throw roleError;
+
+        if (row.role !== "student") {
+          const { error: studentError } = await admin
+            .from("user_roles")
+            .delete()
+            .eq("user_id", userId)
+            .eq("role", "student");
+
+          if (studentError) throw studentError;
+        }
+
+        // Imports skip the sign-up allowlist, so approve any registration the trigger held back
+        const { error: registrationError } = await admin
+          .from("registrations")
+          .update({ status: "approved", reviewed_by: callerId, reviewed_at: new Date().toISOString() })
+          .eq("user_id", userId)
+          .eq("status", "pending");
+
+        if (registrationError) throw registrationError;
+
+        result.status = "created";
+      } catch (error) {
+        result.status = "error";
+        result.errors.push(errorMessage(error));
+      }
+    }
+
+    return jsonResponse({ results });
+  } catch (error) {
+    console.error("Error provisioning users:", error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
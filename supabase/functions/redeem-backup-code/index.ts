@@ -0,0 +1,45 @@
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { callerClient, serviceClient } from "../_shared/auth.ts";
+
+// A backup code can't raise the session to aal2 by itself, so redeeming one removes the
+// caller's authenticator factors instead. They then sign in with their password alone and
+// are sent straight to enroll a new authenticator.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const caller = callerClient(req);
+    const { data: { user } } = await caller.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Sign in with your password first" }, 401);
+    }
+
+    const { code } = await req.json() as { code?: string };
+
+    const { data: redeemed, error: redeemError } = await caller.rpc("consume_mfa_backup_code", {
+      _code: String(code ?? ""),
+    });
+
+    if (redeemError) throw redeemError;
+    if (!redeemed) {
+      return jsonResponse({ error: "That backup code is not valid or has already been used" }, 400);
+    }
+
+    const admin = serviceClient();
+    const { data: factors, error: listError } = await admin.auth.admin.mfa.listFactors({ userId: user.id });
+
+    if (listError) throw listError;
+
+    for (const factor of factors.factors) {
+      const { error: deleteError } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId: user.id });
+      if (deleteError) throw deleteError;
+    }
+
+    return jsonResponse({ ok: true });
+  } catch (error) {
+    console.error("Error redeeming backup code:", error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
@@ -0,0 +1,84 @@
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { authEmails, authorize, callerClient, serviceClient } from "../_shared/auth.ts";
+import { sendMail } from "../_shared/mailer.ts";
+
+const ROLES = ["student", "staff", "admin"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const roleLabels: Record<string, string> = {
+  student: "a student",
+  staff: "a staff member",
+  admin: "an admin",
+};
+
+// Creates an invitation and emails its one-time sign-up link. Any earlier pending
+// invitation for the same address is revoked, so only the newest link works.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await authorize(req, "manage_users");
+    if (!userId) {
+      return jsonResponse({ error: "You need the manage users permission and an authenticator sign-in to invite users" }, 403);
+    }
+
+    const body = await req.json() as { email?: string; role?: string; redirect_to?: string };
+    const email = String(body.email ?? "").trim().toLowerCase();
+    const role = String(body.role ?? "");
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return jsonResponse({ error: "Enter a valid email address" }, 400);
+    }
+    if (!ROLES.includes(role)) {
+      return jsonResponse({ error: `Role must be one of ${ROLES.join(", ")}` }, 400);
+    }
+    if (!body.redirect_to) {
+      return jsonResponse({ error: "Missing sign-up page address" }, 400);
+    }
+
+    const existingEmails = await authEmails(serviceClient());
+    if (existingEmails.has(email)) {
+      return jsonResponse({ error: "An account with this email already exists" }, 409);
+    }
+
+    // Written as the caller, so the invitations RLS policy applies
+    const caller = callerClient(req);
+
+    const { error: revokeError } = await caller
+      .from("invitations")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("email", email)
+      .is("accepted_at", null)
+      .is("revoked_at", null);
+
+    if (revokeError) throw revokeError;
+
+    const { data: invitation, error: insertError } = await caller
+      .from("invitations")
+      .insert({ email, role, invited_by: userId })
+      .select("id, email, role, token, expires_at")
+      .single();
+
+    if (insertError) throw insertError;
+
+    const link = `${body.redirect_to}?invite=${invitation.token}`;
+    const expires = new Date(invitation.expires_at).toUTCString();
+
+    await sendMail({
+      to: email,
+      subject: "You're invited to Brototype CMS",
+      text: `You've been invited to join Brototype CMS as ${roleLabels[role]}.\n\n` +
+        `Create your account here: ${link}\n\nThis link can be used once and expires on ${expires}.`,
+      html: `<p>You've been invited to join Brototype CMS as ${roleLabels[role]}.</p>` +
+        `<p><a href="${link}">Create your account</a></p>` +
+        `<p>This link can be used once and expires on ${expires}.</p>`,
+    });
+
+    return jsonResponse({ invitation: { id: invitation.id, email, role, expires_at: invitation.expires_at } });
+  } catch (error) {
+    console.error("Error sending invitation:", error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
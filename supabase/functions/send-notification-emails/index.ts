@@ -0,0 +1,77 @@
+import { corsHeaders, errorMessage, jsonResponse } from "../_shared/cors.ts";
+import { serviceClient } from "../_shared/auth.ts";
+import { sendMail } from "../_shared/mailer.ts";
+import { isEmailType, renderEmail } from "./templates.ts";
+
+const BATCH_SIZE = 20;
+
+// Drains the email outbox. A cron job calls this every minute with the service role key;
+// failed sends go back to the outbox and record_email_attempt schedules the retry.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+    return jsonResponse({ error: "Only the scheduler can send notification emails" }, 403);
+  }
+
+  try {
+    const admin = serviceClient();
+    const appUrl = (Deno.env.get("APP_URL") ?? "http://localhost:8080").replace(/\/$/, "");
+
+    const { data: emails, error: claimError } = await admin.rpc("claim_email_outbox", { _limit: BATCH_SIZE });
+    if (claimError) throw claimError;
+    if (!emails?.length) return jsonResponse({ sent: 0, failed: 0 });
+
+    const userIds = [...new Set(emails.map((email: { user_id: string }) => email.user_id))];
+    const { data: profiles, error: profilesError } = await admin
+      .from("profiles")
+      .select("id, full_name")
+      .in("id", userIds);
+
+    if (profilesError) throw profilesError;
+
+    const names = new Map((profiles ?? []).map((profile) => [profile.id, profile.full_name]));
+    let sent = 0;
+    let failed = 0;
+
+    for (const email of emails) {
+      let sendError: string | null = null;
+
+      try {
+        // Users can edit the email on their profile, so send to the one they sign in with
+        const { data: { user: recipient }, error: recipientError } = await admin.auth.admin.getUserById(email.user_id);
+        if (recipientError) throw recipientError;
+        if (!recipient?.email) throw new Error("Recipient has no email address");
+        if (!isEmailType(email.type)) throw new Error(`No email template for ${email.type}`);
+
+        const rendered = renderEmail(email.type, {
+          ...email.data,
+          recipientName: names.get(email.user_id) || "there",
+          complaintUrl: email.complaint_id ? `${appUrl}/complaint/${email.complaint_id}` : appUrl,
+          settingsUrl: `${appUrl}/settings`,
+        });
+
+        await sendMail({ to: recipient.email, ...rendered });
+        sent++;
+      } catch (error) {
+        sendError = errorMessage(error);
+        failed++;
+        console.error(`Error sending email ${email.id}:`, error);
+      }
+
+      const { error: recordError } = await admin.rpc("record_email_attempt", {
+        _id: email.id,
+        _error: sendError,
+      });
+
+      if (recordError) console.error(`Error recording email ${email.id}:`, recordError);
+    }
+
+    return jsonResponse({ sent, failed });
+  } catch (error) {
+    console.error("Error sending notification emails:", error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
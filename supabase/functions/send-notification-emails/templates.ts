@@ -0,0 +1,111 @@
+type EmailType = "complaint_created" | "assigned" | "status_changed" | "resolved" | "new_comment";
+
+export type TemplateData = {
+  recipientName: string;
+  complaintUrl: string;
+  settingsUrl: string;
+  title?: string;
+  category?: string;
+  priority?: string;
+  status?: string;
+  reason?: string | null;
+  author?: string | null;
+  excerpt?: string;
+  internal?: boolean;
+};
+
+type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+type Template = {
+  subject: (data: TemplateData) => string;
+  // Plain-text paragraphs; the HTML version is built from the same lines
+  lines: (data: TemplateData) => string[];
+  action: string;
+};
+
+const humanize = (value?: string) => (value ?? "").replace(/_/g, " ");
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const templates: Record<EmailType, Template> = {
+  complaint_created: {
+    subject: (data) => `We received your complaint: ${data.title}`,
+    lines: (data) => [
+      `Your complaint "${data.title}" has been filed under ${humanize(data.category)} with ${data.priority} priority.`,
+      "We'll email you when someone picks it up or its status changes.",
+    ],
+    action: "View your complaint",
+  },
+  assigned: {
+    subject: (data) => `Complaint assigned to you: ${data.title}`,
+    lines: (data) => [
+      `"${data.title}" (${humanize(data.category)}, ${data.priority} priority) has been assigned to you.`,
+    ],
+    action: "Open the complaint",
+  },
+  status_changed: {
+    subject: (data) => `Your complaint is now ${humanize(data.status)}: ${data.title}`,
+    lines: (data) => [
+      `The status of "${data.title}" changed to ${humanize(data.status)}.`,
+      ...(data.reason ? [`Reason: ${data.reason}`] : []),
+    ],
+    action: "View your complaint",
+  },
+  resolved: {
+    subject: (data) => `Your complaint has been resolved: ${data.title}`,
+    lines: (data) => [
+      `"${data.title}" has been marked as resolved.`,
+      "If the problem isn't fixed, let us know from the complaint page.",
+    ],
+    action: "Review the resolution",
+  },
+  new_comment: {
+    subject: (data) => `${data.internal ? "New internal note" : "New comment"} on: ${data.title}`,
+    lines: (data) => [
+      `${data.author ?? "Someone"} ${data.internal ? "added an internal note to" : "commented on"} "${data.title}":`,
+      data.excerpt ?? "",
+    ],
+    action: "Reply",
+  },
+};
+
+export const isEmailType = (type: string): type is EmailType => type in templates;
+
+export const renderEmail = (type: EmailType, data: TemplateData): RenderedEmail => {
+  const template = templates[type];
+  const lines = template.lines(data).filter(Boolean);
+  const footer = `You can choose which emails you get in your account settings: ${data.settingsUrl}`;
+
+  const text = [
+    `Hi ${data.recipientName},`,
+    ...lines,
+    `${template.action}: ${data.complaintUrl}`,
+    "--",
+    footer,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    ${lines.map((line) => `<p style="white-space: pre-line;">${escapeHtml(line)}</p>`).join("\n    ")}
+    <p>
+      <a href="${escapeHtml(data.complaintUrl)}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(template.action)}</a>
+    </p>
+    <p style="font-size: 12px; color: #6b7280;">
+      You can choose which emails you get in your <a href="${escapeHtml(data.settingsUrl)}">account settings</a>.
+    </p>
+  </body>
+</html>`;
+
+  return { subject: template.subject(data), text, html };
+};
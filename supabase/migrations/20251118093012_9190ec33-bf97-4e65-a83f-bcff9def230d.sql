@@ -0,0 +1,116 @@
+-- Create enum for complaint audit events
+CREATE TYPE public.complaint_event_type AS ENUM ('created', 'status_changed', 'assigned', 'reassigned', 'unassigned', 'edited');
+
+-- Create complaint_events table (append-only audit trail, written by triggers)
+CREATE TABLE public.complaint_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event_type complaint_event_type NOT NULL,
+  field TEXT,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX complaint_events_complaint_id_idx ON public.complaint_events (complaint_id, created_at);
+
+-- Enable RLS
+ALTER TABLE public.complaint_events ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for complaint_events (same visibility as comments, no direct writes)
+CREATE POLICY "Users can view events on accessible complaints"
+  ON public.complaint_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.complaints
+      WHERE id = complaint_id
+      AND (
+        student_id = auth.uid() OR
+        assigned_to = auth.uid() OR
+        public.has_role(auth.uid(), 'admin')
+      )
+    )
+  );
+
+-- Create function to record complaint changes
+CREATE OR REPLACE FUNCTION public.log_complaint_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, COALESCE(_actor, NEW.student_id), 'created', NEW.status::TEXT);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, new_value)
+      VALUES (NEW.id, _actor, 'assigned', 'assigned_to', NEW.assigned_to::TEXT);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Status changes
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'status_changed', 'status', OLD.status::TEXT, NEW.status::TEXT);
+  END IF;
+
+  -- Assignment changes
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (
+      NEW.id,
+      _actor,
+      CASE
+        WHEN OLD.assigned_to IS NULL THEN 'assigned'
+        WHEN NEW.assigned_to IS NULL THEN 'unassigned'
+        ELSE 'reassigned'
+      END::complaint_event_type,
+      'assigned_to',
+      OLD.assigned_to::TEXT,
+      NEW.assigned_to::TEXT
+    );
+  END IF;
+
+  -- Content edits
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'description', OLD.description, NEW.description);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'category', OLD.category::TEXT, NEW.category::TEXT);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers for complaint audit trail
+CREATE TRIGGER log_complaint_insert_events
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_complaint_events();
+
+CREATE TRIGGER log_complaint_update_events
+  AFTER UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_complaint_events();
+
+-- Backfill a created event for existing complaints
+INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, new_value, created_at)
+SELECT id, student_id, 'created', status::TEXT, created_at
+FROM public.complaints;
@@ -0,0 +1,111 @@
+-- Create private storage bucket for complaint attachments (10 MB, images and documents only)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'complaint-attachments',
+  'complaint-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Create attachments table
+CREATE TABLE public.attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE NOT NULL,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX attachments_complaint_id_idx ON public.attachments (complaint_id);
+
+-- Enable RLS
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+-- Create security definer function to check complaint access (mirrors the comments policies)
+CREATE OR REPLACE FUNCTION public.can_access_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.complaints
+    WHERE id = _complaint_id
+    AND (
+      student_id = _user_id OR
+      assigned_to = _user_id OR
+      public.has_role(_user_id, 'admin')
+    )
+  )
+$$;
+
+-- RLS Policies for attachments
+CREATE POLICY "Users can view attachments on accessible complaints"
+  ON public.attachments FOR SELECT
+  TO authenticated
+  USING (public.can_access_complaint(auth.uid(), complaint_id));
+
+CREATE POLICY "Users can add attachments on accessible complaints"
+  ON public.attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = uploaded_by AND
+    public.can_access_complaint(auth.uid(), complaint_id) AND
+    storage_path LIKE complaint_id::TEXT || '/%' AND
+    (
+      comment_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.comments
+        WHERE id = comment_id
+        AND comments.complaint_id = attachments.complaint_id
+        AND comments.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete own attachments"
+  ON public.attachments FOR DELETE
+  TO authenticated
+  USING (auth.uid() = uploaded_by);
+
+-- Storage policies (objects are stored as <complaint_id>/<file>)
+CREATE POLICY "Users can read attachments on accessible complaints"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'complaint-attachments' AND
+    public.can_access_complaint(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  );
+
+CREATE POLICY "Users can upload attachments on accessible complaints"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'complaint-attachments' AND
+    public.can_access_complaint(auth.uid(), ((storage.foldername(name))[1])::UUID)
+  );
+
+CREATE POLICY "Users can delete own attachment files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'complaint-attachments' AND
+    owner = auth.uid()
+  );
@@ -0,0 +1,9 @@
+-- Keep full old rows on update so realtime subscribers can see what changed
+ALTER TABLE public.complaints REPLICA IDENTITY FULL;
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+
+-- Broadcast complaint activity through Supabase Realtime (RLS still applies to subscribers)
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaints;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaint_events;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attachments;
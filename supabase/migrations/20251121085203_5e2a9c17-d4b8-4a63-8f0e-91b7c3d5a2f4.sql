@@ -0,0 +1,175 @@
+-- Create enum for notification types
+CREATE TYPE public.notification_type AS ENUM ('assigned', 'status_changed', 'new_comment', 'overdue');
+
+-- Create notifications table
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notifications (rows are only created by triggers and scheduled jobs)
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications as read"
+  ON public.notifications FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create function to insert a notification
+CREATE OR REPLACE FUNCTION public.create_notification(
+  _user_id UUID,
+  _type notification_type,
+  _complaint_id UUID,
+  _title TEXT,
+  _body TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Nobody needs to be told about their own actions
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, complaint_id, title, body)
+  VALUES (_user_id, _type, _complaint_id, _title, _body);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, notification_type, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create function to notify about assignment and status changes
+CREATE OR REPLACE FUNCTION public.notify_complaint_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_to IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+    PERFORM public.create_notification(
+      NEW.assigned_to,
+      'assigned',
+      NEW.id,
+      'New complaint assigned to you',
+      NEW.title
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.create_notification(
+      NEW.student_id,
+      'status_changed',
+      NEW.id,
+      'Your complaint is now ' || replace(NEW.status::TEXT, '_', ' '),
+      NEW.title
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_complaint_insert
+  AFTER INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_complaint_changes();
+
+CREATE TRIGGER notify_complaint_update
+  AFTER UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_complaint_changes();
+
+-- Create function to notify the student and assignee about new comments
+CREATE OR REPLACE FUNCTION public.notify_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = NEW.complaint_id;
+
+  PERFORM public.create_notification(
+    _complaint.student_id,
+    'new_comment',
+    _complaint.id,
+    'New comment on your complaint',
+    _complaint.title
+  );
+
+  PERFORM public.create_notification(
+    _complaint.assigned_to,
+    'new_comment',
+    _complaint.id,
+    'New comment on an assigned complaint',
+    _complaint.title
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_insert
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_comment();
+
+-- Create function to alert admins about overdue complaints (pending for more than 3 days without assignment)
+CREATE OR REPLACE FUNCTION public.notify_overdue_complaints()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, complaint_id, title, body)
+  SELECT ur.user_id, 'overdue', c.id, 'Complaint overdue', c.title
+  FROM public.complaints c
+  CROSS JOIN public.user_roles ur
+  WHERE ur.role = 'admin'
+  AND c.status = 'pending'
+  AND c.assigned_to IS NULL
+  AND c.created_at < now() - INTERVAL '3 days'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.notifications n
+    WHERE n.complaint_id = c.id
+    AND n.user_id = ur.user_id
+    AND n.type = 'overdue'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_overdue_complaints() FROM PUBLIC, anon, authenticated;
+
+-- Check for overdue complaints every hour
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'notify-overdue-complaints',
+  '0 * * * *',
+  $$SELECT public.notify_overdue_complaints()$$
+);
+
+-- Push new notifications to the bell in realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,320 @@
+-- Create enum for complaint priority (used to pick the SLA policy)
+CREATE TYPE public.complaint_priority AS ENUM ('low', 'normal', 'high', 'critical');
+
+ALTER TABLE public.complaints
+  ADD COLUMN priority complaint_priority DEFAULT 'normal' NOT NULL;
+
+-- Create SLA policies table (one row per category and priority, targets in business hours)
+CREATE TABLE public.sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category complaint_category NOT NULL,
+  priority complaint_priority NOT NULL,
+  first_response_hours NUMERIC NOT NULL CHECK (first_response_hours > 0),
+  resolution_hours NUMERIC NOT NULL CHECK (resolution_hours > 0),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  UNIQUE(category, priority)
+);
+
+-- Create business hours table (weekday follows EXTRACT(DOW): 0 = Sunday)
+CREATE TABLE public.business_hours (
+  weekday SMALLINT PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+  opens_at TIME NOT NULL,
+  closes_at TIME NOT NULL,
+  CHECK (closes_at > opens_at)
+);
+
+-- Create holiday calendar table
+CREATE TABLE public.holidays (
+  holiday_date DATE PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Add SLA tracking columns to complaints
+ALTER TABLE public.complaints
+  ADD COLUMN first_response_due_at TIMESTAMPTZ,
+  ADD COLUMN resolution_due_at TIMESTAMPTZ,
+  ADD COLUMN first_responded_at TIMESTAMPTZ,
+  ADD COLUMN resolved_at TIMESTAMPTZ,
+  ADD COLUMN first_response_breached BOOLEAN DEFAULT false NOT NULL,
+  ADD COLUMN resolution_breached BOOLEAN DEFAULT false NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.business_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for SLA configuration
+CREATE POLICY "Users can view SLA policies"
+  ON public.sla_policies FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage SLA policies"
+  ON public.sla_policies FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view business hours"
+  ON public.business_hours FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage business hours"
+  ON public.business_hours FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view holidays"
+  ON public.holidays FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage holidays"
+  ON public.holidays FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sla_policies_updated_at
+  BEFORE UPDATE ON public.sla_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Seed default working week (Monday to Friday, 9:00 to 17:00)
+INSERT INTO public.business_hours (weekday, opens_at, closes_at)
+SELECT d, '09:00', '17:00'
+FROM generate_series(1, 5) AS d;
+
+-- Seed default targets for every category
+INSERT INTO public.sla_policies (category, priority, first_response_hours, resolution_hours)
+SELECT c.category, t.priority, t.first_response_hours, t.resolution_hours
+FROM unnest(enum_range(NULL::complaint_category)) AS c(category)
+CROSS JOIN (
+  VALUES
+    ('low'::complaint_priority, 16, 80),
+    ('normal'::complaint_priority, 8, 40),
+    ('high'::complaint_priority, 4, 16),
+    ('critical'::complaint_priority, 1, 8)
+) AS t(priority, first_response_hours, resolution_hours);
+
+-- Create function returning the timezone business hours are expressed in
+CREATE OR REPLACE FUNCTION public.sla_timezone()
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT 'Asia/Kolkata'::TEXT
+$$;
+
+-- Create function to decide whether a status still counts towards the SLA clock
+CREATE OR REPLACE FUNCTION public.is_open_status(_status complaint_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT _status <> 'resolved'
+$$;
+
+-- Create function to add business hours to a timestamp, skipping closed days and holidays
+CREATE OR REPLACE FUNCTION public.add_business_hours(_start TIMESTAMPTZ, _hours NUMERIC)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _tz TEXT := public.sla_timezone();
+  _local TIMESTAMP := _start AT TIME ZONE _tz;
+  _day DATE := (_start AT TIME ZONE _tz)::DATE;
+  _remaining INTERVAL := make_interval(secs => _hours * 3600);
+  _opens_at TIME;
+  _closes_at TIME;
+  _window_start TIMESTAMP;
+  _window_end TIMESTAMP;
+BEGIN
+  -- Give up after ten years of calendar days rather than loop forever without business hours
+  FOR _i IN 1..3660 LOOP
+    SELECT opens_at, closes_at INTO _opens_at, _closes_at
+    FROM public.business_hours
+    WHERE weekday = EXTRACT(DOW FROM _day);
+
+    IF FOUND AND NOT EXISTS (SELECT 1 FROM public.holidays WHERE holiday_date = _day) THEN
+      _window_start := GREATEST(_day + _opens_at, _local);
+      _window_end := _day + _closes_at;
+
+      IF _window_end > _window_start THEN
+        IF _window_end - _window_start >= _remaining THEN
+          RETURN (_window_start + _remaining) AT TIME ZONE _tz;
+        END IF;
+        _remaining := _remaining - (_window_end - _window_start);
+      END IF;
+    END IF;
+
+    _day := _day + 1;
+  END LOOP;
+
+  RAISE EXCEPTION 'No business hours configured for SLA calculation';
+END;
+$$;
+
+-- Create function to keep SLA due dates, response/resolution timestamps and breach flags current
+CREATE OR REPLACE FUNCTION public.apply_complaint_sla()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.sla_policies%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.category IS DISTINCT FROM OLD.category OR NEW.priority IS DISTINCT FROM OLD.priority THEN
+    SELECT * INTO _policy
+    FROM public.sla_policies
+    WHERE category = NEW.category AND priority = NEW.priority;
+
+    IF FOUND THEN
+      NEW.first_response_due_at := public.add_business_hours(NEW.created_at, _policy.first_response_hours);
+      NEW.resolution_due_at := public.add_business_hours(NEW.created_at, _policy.resolution_hours);
+    ELSE
+      NEW.first_response_due_at := NULL;
+      NEW.resolution_due_at := NULL;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Moving off pending counts as the first response
+    IF NEW.first_responded_at IS NULL AND OLD.status = 'pending' AND NEW.status <> 'pending' THEN
+      NEW.first_responded_at := now();
+    END IF;
+
+    IF NOT public.is_open_status(NEW.status) AND public.is_open_status(OLD.status) THEN
+      NEW.resolved_at := now();
+    ELSIF public.is_open_status(NEW.status) THEN
+      NEW.resolved_at := NULL;
+    END IF;
+  END IF;
+
+  NEW.first_response_breached := NEW.first_response_due_at IS NOT NULL
+    AND COALESCE(NEW.first_responded_at, now()) > NEW.first_response_due_at;
+  NEW.resolution_breached := NEW.resolution_due_at IS NOT NULL
+    AND COALESCE(NEW.resolved_at, now()) > NEW.resolution_due_at;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill existing complaints without touching updated_at
+ALTER TABLE public.complaints DISABLE TRIGGER update_complaints_updated_at;
+
+UPDATE public.complaints c
+SET
+  first_response_due_at = public.add_business_hours(c.created_at, p.first_response_hours),
+  resolution_due_at = public.add_business_hours(c.created_at, p.resolution_hours),
+  first_responded_at = CASE WHEN c.status <> 'pending' THEN c.updated_at END,
+  resolved_at = CASE WHEN NOT public.is_open_status(c.status) THEN c.updated_at END
+FROM public.sla_policies p
+WHERE p.category = c.category AND p.priority = c.priority;
+
+UPDATE public.complaints
+SET
+  first_response_breached = COALESCE(first_responded_at, now()) > first_response_due_at,
+  resolution_breached = COALESCE(resolved_at, now()) > resolution_due_at
+WHERE first_response_due_at IS NOT NULL;
+
+ALTER TABLE public.complaints ENABLE TRIGGER update_complaints_updated_at;
+
+-- Trigger for SLA tracking
+CREATE TRIGGER apply_complaint_sla
+  BEFORE INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_complaint_sla();
+
+-- Create function to record the first response when staff or admins comment
+CREATE OR REPLACE FUNCTION public.record_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.complaints
+  SET first_responded_at = NEW.created_at
+  WHERE id = NEW.complaint_id
+  AND first_responded_at IS NULL
+  AND student_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_first_response_on_comment
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_first_response();
+
+-- Replace the three-day overdue rule: admins are alerted when an open complaint breaches its SLA
+CREATE OR REPLACE FUNCTION public.notify_overdue_complaints()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, complaint_id, title, body)
+  SELECT
+    ur.user_id,
+    'overdue',
+    c.id,
+    CASE WHEN c.first_response_breached AND c.first_responded_at IS NULL
+      THEN 'First response SLA breached'
+      ELSE 'Resolution SLA breached'
+    END,
+    c.title
+  FROM public.complaints c
+  CROSS JOIN public.user_roles ur
+  WHERE ur.role = 'admin'
+  AND public.is_open_status(c.status)
+  AND (c.first_response_breached OR c.resolution_breached)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.notifications n
+    WHERE n.complaint_id = c.id
+    AND n.user_id = ur.user_id
+    AND n.type = 'overdue'
+  );
+END;
+$$;
+
+-- Create function to flag open complaints whose SLA deadlines have passed
+CREATE OR REPLACE FUNCTION public.refresh_sla_breaches()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.complaints
+  SET first_response_breached = true
+  WHERE NOT first_response_breached
+  AND first_responded_at IS NULL
+  AND first_response_due_at < now();
+
+  UPDATE public.complaints
+  SET resolution_breached = true
+  WHERE NOT resolution_breached
+  AND public.is_open_status(status)
+  AND resolution_due_at < now();
+
+  PERFORM public.notify_overdue_complaints();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_sla_breaches() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.unschedule('notify-overdue-complaints');
+
+SELECT cron.schedule(
+  'refresh-sla-breaches',
+  '*/5 * * * *',
+  $$SELECT public.refresh_sla_breaches()$$
+);
@@ -0,0 +1,3 @@
+-- Add enum values for priority changes (kept in their own migration so later ones can use them)
+ALTER TYPE public.complaint_event_type ADD VALUE IF NOT EXISTS 'priority_changed';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'escalated';
@@ -0,0 +1,189 @@
+-- Students suggest a priority; staff and admins decide the effective one
+ALTER TABLE public.complaints
+  ADD COLUMN requested_priority complaint_priority,
+  ADD COLUMN escalated_at TIMESTAMPTZ;
+
+CREATE INDEX complaints_priority_idx ON public.complaints (priority);
+
+-- Create function to keep students from setting the effective priority themselves
+CREATE OR REPLACE FUNCTION public.apply_complaint_priority()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'staff') OR public.has_role(auth.uid(), 'admin')) THEN
+    NEW.priority := 'normal';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs before apply_complaint_sla (triggers fire in name order) so the SLA uses the final priority
+CREATE TRIGGER apply_complaint_priority
+  BEFORE INSERT ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_complaint_priority();
+
+-- Record priority changes in the audit trail
+CREATE OR REPLACE FUNCTION public.log_complaint_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, COALESCE(_actor, NEW.student_id), 'created', NEW.status::TEXT);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, new_value)
+      VALUES (NEW.id, _actor, 'assigned', 'assigned_to', NEW.assigned_to::TEXT);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Status changes
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'status_changed', 'status', OLD.status::TEXT, NEW.status::TEXT);
+  END IF;
+
+  -- Priority changes
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'priority_changed', 'priority', OLD.priority::TEXT, NEW.priority::TEXT);
+  END IF;
+
+  -- Assignment changes
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (
+      NEW.id,
+      _actor,
+      CASE
+        WHEN OLD.assigned_to IS NULL THEN 'assigned'
+        WHEN NEW.assigned_to IS NULL THEN 'unassigned'
+        ELSE 'reassigned'
+      END::complaint_event_type,
+      'assigned_to',
+      OLD.assigned_to::TEXT,
+      NEW.assigned_to::TEXT
+    );
+  END IF;
+
+  -- Content edits
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'description', OLD.description, NEW.description);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'category', OLD.category::TEXT, NEW.category::TEXT);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create escalation rules table (how long a complaint of a priority may sit untouched)
+CREATE TABLE public.priority_escalation_rules (
+  priority complaint_priority PRIMARY KEY,
+  idle_hours NUMERIC NOT NULL CHECK (idle_hours > 0),
+  escalate_to complaint_priority NOT NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (escalate_to > priority)
+);
+
+ALTER TABLE public.priority_escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view escalation rules"
+  ON public.priority_escalation_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage escalation rules"
+  ON public.priority_escalation_rules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_priority_escalation_rules_updated_at
+  BEFORE UPDATE ON public.priority_escalation_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Seed default rule: high priority complaints untouched for 4 hours become critical
+INSERT INTO public.priority_escalation_rules (priority, idle_hours, escalate_to)
+VALUES ('high', 4, 'critical');
+
+-- Create function returning the last time a person acted on a complaint
+CREATE OR REPLACE FUNCTION public.complaint_last_activity(_complaint_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    (SELECT created_at FROM public.complaints WHERE id = _complaint_id),
+    (SELECT max(created_at) FROM public.complaint_events WHERE complaint_id = _complaint_id AND actor_id IS NOT NULL),
+    (SELECT max(created_at) FROM public.comments WHERE complaint_id = _complaint_id)
+  )
+$$;
+
+-- Create function to bump the priority of untouched complaints and alert admins
+CREATE OR REPLACE FUNCTION public.escalate_stale_complaints()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint RECORD;
+BEGIN
+  FOR _complaint IN
+    SELECT c.id, c.title, c.priority AS old_priority, r.escalate_to
+    FROM public.complaints c
+    JOIN public.priority_escalation_rules r ON r.priority = c.priority AND r.is_active
+    WHERE public.is_open_status(c.status)
+    -- A previous escalation restarts the clock so complaints climb one level at a time
+    AND GREATEST(public.complaint_last_activity(c.id), c.escalated_at) < now() - make_interval(secs => r.idle_hours * 3600)
+    FOR UPDATE OF c SKIP LOCKED
+  LOOP
+    UPDATE public.complaints
+    SET priority = _complaint.escalate_to, escalated_at = now()
+    WHERE id = _complaint.id;
+
+    INSERT INTO public.notifications (user_id, type, complaint_id, title, body)
+    SELECT
+      ur.user_id,
+      'escalated',
+      _complaint.id,
+      'Complaint escalated from ' || _complaint.old_priority || ' to ' || _complaint.escalate_to,
+      _complaint.title
+    FROM public.user_roles ur
+    WHERE ur.role = 'admin';
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_stale_complaints() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'escalate-stale-complaints',
+  '*/15 * * * *',
+  $$SELECT public.escalate_stale_complaints()$$
+);
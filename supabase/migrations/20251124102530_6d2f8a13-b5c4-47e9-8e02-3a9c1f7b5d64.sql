@@ -0,0 +1,296 @@
+-- Create enum for pool routing strategies
+CREATE TYPE public.assignment_strategy AS ENUM ('round_robin', 'least_open_workload');
+
+-- Create staff pools table
+CREATE TABLE public.staff_pools (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  strategy assignment_strategy DEFAULT 'round_robin' NOT NULL,
+  last_assigned_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create staff pool members table
+CREATE TABLE public.staff_pool_members (
+  pool_id UUID REFERENCES public.staff_pools(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (pool_id, user_id)
+);
+
+-- Create assignment rules table (evaluated in position order, first match wins)
+CREATE TABLE public.assignment_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  category complaint_category,
+  priority complaint_priority,
+  keywords TEXT[],
+  target_staff_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_pool_id UUID REFERENCES public.staff_pools(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (num_nonnulls(target_staff_id, target_pool_id) = 1)
+);
+
+-- Record which rule routed a complaint and why
+ALTER TABLE public.complaints
+  ADD COLUMN assignment_rule_id UUID REFERENCES public.assignment_rules(id) ON DELETE SET NULL,
+  ADD COLUMN assignment_reason TEXT;
+
+ALTER TABLE public.complaint_events
+  ADD COLUMN note TEXT;
+
+-- Enable RLS
+ALTER TABLE public.staff_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_pool_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assignment_rules ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for routing configuration
+CREATE POLICY "Admins can manage staff pools"
+  ON public.staff_pools FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage staff pool members"
+  ON public.staff_pool_members FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage assignment rules"
+  ON public.assignment_rules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_staff_pools_updated_at
+  BEFORE UPDATE ON public.staff_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TRIGGER update_assignment_rules_updated_at
+  BEFORE UPDATE ON public.assignment_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Create function to pick the next staff member from a pool
+CREATE OR REPLACE FUNCTION public.pick_pool_member(_pool_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pool public.staff_pools%ROWTYPE;
+  _picked UUID;
+BEGIN
+  -- Lock the pool so concurrent inserts don't hand out the same turn
+  SELECT * INTO _pool FROM public.staff_pools WHERE id = _pool_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF _pool.strategy = 'least_open_workload' THEN
+    SELECT m.user_id INTO _picked
+    FROM public.staff_pool_members m
+    WHERE m.pool_id = _pool_id
+    AND public.has_role(m.user_id, 'staff')
+    ORDER BY (
+      SELECT count(*) FROM public.complaints c
+      WHERE c.assigned_to = m.user_id
+      AND public.is_open_status(c.status)
+    ), m.user_id
+    LIMIT 1;
+  ELSE
+    -- Round robin: the member after the last one picked, wrapping around
+    SELECT m.user_id INTO _picked
+    FROM public.staff_pool_members m
+    WHERE m.pool_id = _pool_id
+    AND public.has_role(m.user_id, 'staff')
+    ORDER BY (_pool.last_assigned_user_id IS NOT NULL AND m.user_id <= _pool.last_assigned_user_id), m.user_id
+    LIMIT 1;
+  END IF;
+
+  IF _picked IS NOT NULL THEN
+    UPDATE public.staff_pools SET last_assigned_user_id = _picked WHERE id = _pool_id;
+  END IF;
+
+  RETURN _picked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pick_pool_member(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create function to route new complaints through the assignment rules
+CREATE OR REPLACE FUNCTION public.assign_complaint_by_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.assignment_rules%ROWTYPE;
+  _keyword TEXT;
+  _assignee UUID;
+  _conditions TEXT[];
+  _target TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- A manual reassignment replaces whatever the rules decided
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to AND NEW.assignment_reason IS NOT DISTINCT FROM OLD.assignment_reason THEN
+      NEW.assignment_rule_id := NULL;
+      NEW.assignment_reason := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _rule IN
+    SELECT * FROM public.assignment_rules
+    WHERE is_active
+    ORDER BY position, created_at
+  LOOP
+    CONTINUE WHEN _rule.category IS NOT NULL AND _rule.category <> NEW.category;
+    CONTINUE WHEN _rule.priority IS NOT NULL AND _rule.priority <> NEW.priority;
+
+    _keyword := NULL;
+    IF COALESCE(cardinality(_rule.keywords), 0) > 0 THEN
+      SELECT k INTO _keyword
+      FROM unnest(_rule.keywords) AS k
+      WHERE (NEW.title || ' ' || NEW.description) ILIKE '%' || k || '%'
+      LIMIT 1;
+
+      CONTINUE WHEN _keyword IS NULL;
+    END IF;
+
+    IF _rule.target_staff_id IS NOT NULL THEN
+      _assignee := CASE WHEN public.has_role(_rule.target_staff_id, 'staff') THEN _rule.target_staff_id END;
+      _target := 'a specific staff member';
+    ELSE
+      _assignee := public.pick_pool_member(_rule.target_pool_id);
+      SELECT format('pool "%s" by %s', name, replace(strategy::TEXT, '_', ' '))
+      INTO _target
+      FROM public.staff_pools
+      WHERE id = _rule.target_pool_id;
+    END IF;
+
+    -- Rule matched but its target has nobody available: try the next rule
+    CONTINUE WHEN _assignee IS NULL;
+
+    _conditions := ARRAY[]::TEXT[];
+    IF _rule.category IS NOT NULL THEN
+      _conditions := _conditions || format('category is %s', _rule.category);
+    END IF;
+    IF _rule.priority IS NOT NULL THEN
+      _conditions := _conditions || format('priority is %s', _rule.priority);
+    END IF;
+    IF _keyword IS NOT NULL THEN
+      _conditions := _conditions || format('mentions "%s"', _keyword);
+    END IF;
+
+    NEW.assigned_to := _assignee;
+    NEW.assignment_rule_id := _rule.id;
+    NEW.assignment_reason := format(
+      'Rule "%s"%s routed to %s',
+      _rule.name,
+      CASE WHEN cardinality(_conditions) > 0 THEN ' (' || array_to_string(_conditions, ', ') || ')' ELSE '' END,
+      _target
+    );
+    RETURN NEW;
+  END LOOP;
+
+  -- No rule matched: leave it in the unassigned queue
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after apply_complaint_priority so rules see the final priority
+CREATE TRIGGER assign_complaint_by_rules
+  BEFORE INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_complaint_by_rules();
+
+-- Include the routing reason in the audit trail
+CREATE OR REPLACE FUNCTION public.log_complaint_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, COALESCE(_actor, NEW.student_id), 'created', NEW.status::TEXT);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      -- Rule-based assignments are made by the system, not the submitting student
+      INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, new_value, note)
+      VALUES (
+        NEW.id,
+        CASE WHEN NEW.assignment_rule_id IS NULL THEN _actor END,
+        'assigned',
+        'assigned_to',
+        NEW.assigned_to::TEXT,
+        NEW.assignment_reason
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Status changes
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'status_changed', 'status', OLD.status::TEXT, NEW.status::TEXT);
+  END IF;
+
+  -- Priority changes
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'priority_changed', 'priority', OLD.priority::TEXT, NEW.priority::TEXT);
+  END IF;
+
+  -- Assignment changes
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value, note)
+    VALUES (
+      NEW.id,
+      _actor,
+      CASE
+        WHEN OLD.assigned_to IS NULL THEN 'assigned'
+        WHEN NEW.assigned_to IS NULL THEN 'unassigned'
+        ELSE 'reassigned'
+      END::complaint_event_type,
+      'assigned_to',
+      OLD.assigned_to::TEXT,
+      NEW.assigned_to::TEXT,
+      NEW.assignment_reason
+    );
+  END IF;
+
+  -- Content edits
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'description', OLD.description, NEW.description);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'category', OLD.category::TEXT, NEW.category::TEXT);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
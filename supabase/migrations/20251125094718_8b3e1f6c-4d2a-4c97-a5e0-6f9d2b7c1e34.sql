@@ -0,0 +1,185 @@
+-- Create teams table
+CREATE TABLE public.teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+-- Create team members table
+CREATE TABLE public.team_members (
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (team_id, user_id)
+);
+
+-- Create team categories table (each category is owned by at most one team)
+CREATE TABLE public.team_categories (
+  category complaint_category PRIMARY KEY,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL
+);
+
+CREATE INDEX team_members_user_id_idx ON public.team_members (user_id);
+CREATE INDEX team_categories_team_id_idx ON public.team_categories (team_id);
+
+-- Enable RLS
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_categories ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for teams
+CREATE POLICY "Authenticated users can view teams"
+  ON public.teams FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage teams"
+  ON public.teams FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view team members"
+  ON public.team_members FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage team members"
+  ON public.team_members FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view team categories"
+  ON public.team_categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage team categories"
+  ON public.team_categories FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Create security definer function to check whether a user's team owns a category
+CREATE OR REPLACE FUNCTION public.is_team_member_for_category(_user_id UUID, _category complaint_category)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.team_categories tc
+    JOIN public.team_members tm ON tm.team_id = tc.team_id
+    WHERE tc.category = _category
+    AND tm.user_id = _user_id
+  )
+$$;
+
+-- Team members can now access their team's complaints
+CREATE OR REPLACE FUNCTION public.can_access_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.complaints
+    WHERE id = _complaint_id
+    AND (
+      student_id = _user_id OR
+      assigned_to = _user_id OR
+      public.is_team_member_for_category(_user_id, category) OR
+      public.has_role(_user_id, 'admin')
+    )
+  )
+$$;
+
+-- Replace the blanket staff read access with assignee and team access
+DROP POLICY "Students can view own complaints" ON public.complaints;
+
+CREATE POLICY "Users can view accessible complaints"
+  ON public.complaints FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = student_id OR
+    auth.uid() = assigned_to OR
+    public.is_team_member_for_category(auth.uid(), category) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Comments and events share the same visibility as the complaint
+DROP POLICY "Users can view comments on accessible complaints" ON public.comments;
+DROP POLICY "Users can create comments on accessible complaints" ON public.comments;
+
+CREATE POLICY "Users can view comments on accessible complaints"
+  ON public.comments FOR SELECT
+  TO authenticated
+  USING (public.can_access_complaint(auth.uid(), complaint_id));
+
+CREATE POLICY "Users can create comments on accessible complaints"
+  ON public.comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.can_access_complaint(auth.uid(), complaint_id)
+  );
+
+DROP POLICY "Users can view events on accessible complaints" ON public.complaint_events;
+
+CREATE POLICY "Users can view events on accessible complaints"
+  ON public.complaint_events FOR SELECT
+  TO authenticated
+  USING (public.can_access_complaint(auth.uid(), complaint_id));
+
+-- Create function for team members to claim unassigned complaints from their queue
+CREATE OR REPLACE FUNCTION public.claim_complaint(_complaint_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _team_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'staff') THEN
+    RAISE EXCEPTION 'Only staff can claim complaints';
+  END IF;
+
+  SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF NOT public.is_team_member_for_category(auth.uid(), _complaint.category) THEN
+    RAISE EXCEPTION 'This complaint is not in your team''s queue';
+  END IF;
+
+  IF _complaint.assigned_to IS NOT NULL THEN
+    RAISE EXCEPTION 'This complaint has already been claimed';
+  END IF;
+
+  SELECT t.name INTO _team_name
+  FROM public.team_categories tc
+  JOIN public.teams t ON t.id = tc.team_id
+  WHERE tc.category = _complaint.category;
+
+  UPDATE public.complaints
+  SET
+    assigned_to = auth.uid(),
+    status = 'in_progress',
+    assignment_rule_id = NULL,
+    assignment_reason = format('Claimed from the %s team queue', _team_name)
+  WHERE id = _complaint_id;
+END;
+$$;
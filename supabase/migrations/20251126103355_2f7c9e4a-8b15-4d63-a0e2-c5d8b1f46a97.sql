@@ -0,0 +1,133 @@
+-- Add internal visibility flag to comments
+ALTER TABLE public.comments
+  ADD COLUMN is_internal BOOLEAN DEFAULT false NOT NULL;
+
+-- Create security definer function to check who may read internal notes
+CREATE OR REPLACE FUNCTION public.can_view_internal_notes(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'staff') OR public.has_role(_user_id, 'admin')
+$$;
+
+-- Create security definer function to check whether a stored file belongs to an internal note
+CREATE OR REPLACE FUNCTION public.is_internal_attachment(_storage_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.attachments a
+    JOIN public.comments c ON c.id = a.comment_id
+    WHERE a.storage_path = _storage_path
+    AND c.is_internal
+  )
+$$;
+
+-- Internal notes are hidden from students at the database level
+DROP POLICY "Users can view comments on accessible complaints" ON public.comments;
+DROP POLICY "Users can create comments on accessible complaints" ON public.comments;
+
+CREATE POLICY "Users can view comments on accessible complaints"
+  ON public.comments FOR SELECT
+  TO authenticated
+  USING (
+    public.can_access_complaint(auth.uid(), complaint_id) AND
+    (NOT is_internal OR public.can_view_internal_notes(auth.uid()))
+  );
+
+CREATE POLICY "Users can create comments on accessible complaints"
+  ON public.comments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    public.can_access_complaint(auth.uid(), complaint_id) AND
+    (NOT is_internal OR public.can_view_internal_notes(auth.uid()))
+  );
+
+-- Attachments on internal notes follow the note's visibility
+DROP POLICY "Users can view attachments on accessible complaints" ON public.attachments;
+
+CREATE POLICY "Users can view attachments on accessible complaints"
+  ON public.attachments FOR SELECT
+  TO authenticated
+  USING (
+    public.can_access_complaint(auth.uid(), complaint_id) AND
+    (comment_id IS NULL OR EXISTS (SELECT 1 FROM public.comments WHERE id = comment_id))
+  );
+
+DROP POLICY "Users can read attachments on accessible complaints" ON storage.objects;
+
+CREATE POLICY "Users can read attachments on accessible complaints"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'complaint-attachments' AND
+    public.can_access_complaint(auth.uid(), ((storage.foldername(name))[1])::UUID) AND
+    (NOT public.is_internal_attachment(name) OR public.can_view_internal_notes(auth.uid()))
+  );
+
+-- Internal notes don't notify the student
+CREATE OR REPLACE FUNCTION public.notify_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = NEW.complaint_id;
+
+  IF NOT NEW.is_internal THEN
+    PERFORM public.create_notification(
+      _complaint.student_id,
+      'new_comment',
+      _complaint.id,
+      'New comment on your complaint',
+      _complaint.title
+    );
+  END IF;
+
+  PERFORM public.create_notification(
+    _complaint.assigned_to,
+    'new_comment',
+    _complaint.id,
+    CASE WHEN NEW.is_internal
+      THEN 'New internal note on an assigned complaint'
+      ELSE 'New comment on an assigned complaint'
+    END,
+    _complaint.title
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Internal notes don't count as a response to the student
+CREATE OR REPLACE FUNCTION public.record_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_internal THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.complaints
+  SET first_responded_at = NEW.created_at
+  WHERE id = NEW.complaint_id
+  AND first_responded_at IS NULL
+  AND student_id <> NEW.user_id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,2 @@
+-- Add notification type for disputed resolutions
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'resolution_disputed';
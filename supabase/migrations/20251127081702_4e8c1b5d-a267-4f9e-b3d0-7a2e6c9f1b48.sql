@@ -0,0 +1,80 @@
+-- Create enum for the student's response to a resolution
+CREATE TYPE public.feedback_outcome AS ENUM ('confirmed', 'disputed');
+
+-- Create complaint feedback table (one entry per resolution the student responds to)
+CREATE TABLE public.complaint_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE NOT NULL,
+  student_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  staff_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  outcome feedback_outcome NOT NULL,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  CHECK (outcome = 'disputed' OR rating IS NOT NULL)
+);
+
+CREATE INDEX complaint_feedback_complaint_id_idx ON public.complaint_feedback (complaint_id);
+CREATE INDEX complaint_feedback_staff_id_idx ON public.complaint_feedback (staff_id);
+
+-- Enable RLS
+ALTER TABLE public.complaint_feedback ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for complaint_feedback (writes go through submit_resolution_feedback)
+CREATE POLICY "Users can view feedback on accessible complaints"
+  ON public.complaint_feedback FOR SELECT
+  TO authenticated
+  USING (public.can_access_complaint(auth.uid(), complaint_id));
+
+-- Create function for students to confirm or dispute a resolution
+CREATE OR REPLACE FUNCTION public.submit_resolution_feedback(
+  _complaint_id UUID,
+  _outcome feedback_outcome,
+  _rating SMALLINT DEFAULT NULL,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the student who raised this complaint can respond to its resolution';
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'This complaint has not been resolved';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.complaint_feedback
+    WHERE complaint_id = _complaint_id
+    AND created_at >= _complaint.resolved_at
+  ) THEN
+    RAISE EXCEPTION 'You have already responded to this resolution';
+  END IF;
+
+  INSERT INTO public.complaint_feedback (complaint_id, student_id, staff_id, outcome, rating, comment)
+  VALUES (_complaint_id, auth.uid(), _complaint.assigned_to, _outcome, _rating, NULLIF(trim(_comment), ''));
+
+  IF _outcome = 'disputed' THEN
+    UPDATE public.complaints SET status = 'in_progress' WHERE id = _complaint_id;
+
+    PERFORM public.create_notification(
+      _complaint.assigned_to,
+      'resolution_disputed',
+      _complaint_id,
+      'Student disputed the resolution',
+      COALESCE(NULLIF(trim(_comment), ''), _complaint.title)
+    );
+  END IF;
+END;
+$$;
+
+-- Include feedback in realtime updates
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaint_feedback;
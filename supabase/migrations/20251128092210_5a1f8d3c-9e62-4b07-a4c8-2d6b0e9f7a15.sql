@@ -0,0 +1,7 @@
+-- Add expanded lifecycle states to complaint_status
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'needs_info';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'on_hold';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'rejected';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'reopened';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'closed';
+ALTER TYPE public.complaint_status ADD VALUE IF NOT EXISTS 'withdrawn';
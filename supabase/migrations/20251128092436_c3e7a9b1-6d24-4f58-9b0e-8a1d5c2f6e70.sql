@@ -0,0 +1,324 @@
+-- Store the reason given when a complaint is rejected, put on hold or sent back for more information
+ALTER TABLE public.complaints
+  ADD COLUMN status_reason TEXT,
+  ADD CONSTRAINT complaints_rejection_reason_check CHECK (status <> 'rejected' OR status_reason IS NOT NULL);
+
+-- Create allowed status transitions table (who may move a complaint from one status to another)
+-- 'student' means the complaint's own student and 'staff' means its assignee
+CREATE TABLE public.complaint_status_transitions (
+  from_status complaint_status NOT NULL,
+  to_status complaint_status NOT NULL,
+  allowed_role app_role NOT NULL,
+  PRIMARY KEY (from_status, to_status, allowed_role),
+  CHECK (from_status <> to_status)
+);
+
+-- Enable RLS
+ALTER TABLE public.complaint_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for complaint_status_transitions
+CREATE POLICY "Authenticated users can view status transitions"
+  ON public.complaint_status_transitions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage status transitions"
+  ON public.complaint_status_transitions FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Seed the default lifecycle
+INSERT INTO public.complaint_status_transitions (from_status, to_status, allowed_role)
+SELECT t.from_status::complaint_status, t.to_status::complaint_status, r.role::app_role
+FROM (VALUES
+  ('pending', 'in_progress', 'staff,admin'),
+  ('pending', 'needs_info', 'staff,admin'),
+  ('pending', 'rejected', 'staff,admin'),
+  ('pending', 'withdrawn', 'student,admin'),
+  ('in_progress', 'needs_info', 'staff,admin'),
+  ('in_progress', 'on_hold', 'staff,admin'),
+  ('in_progress', 'resolved', 'staff,admin'),
+  ('in_progress', 'rejected', 'staff,admin'),
+  ('in_progress', 'withdrawn', 'student,admin'),
+  ('needs_info', 'in_progress', 'staff,admin'),
+  ('needs_info', 'rejected', 'staff,admin'),
+  ('needs_info', 'withdrawn', 'student,admin'),
+  ('on_hold', 'in_progress', 'staff,admin'),
+  ('on_hold', 'withdrawn', 'student,admin'),
+  ('resolved', 'closed', 'student,admin'),
+  ('resolved', 'reopened', 'student,admin'),
+  ('reopened', 'in_progress', 'staff,admin'),
+  ('reopened', 'needs_info', 'staff,admin'),
+  ('reopened', 'on_hold', 'staff,admin'),
+  ('reopened', 'resolved', 'staff,admin'),
+  ('reopened', 'rejected', 'staff,admin'),
+  ('reopened', 'withdrawn', 'student,admin'),
+  ('rejected', 'reopened', 'admin'),
+  ('rejected', 'closed', 'admin')
+) AS t(from_status, to_status, roles)
+CROSS JOIN LATERAL unnest(string_to_array(t.roles, ',')) AS r(role);
+
+-- Closed, rejected and withdrawn complaints are finished too
+CREATE OR REPLACE FUNCTION public.is_open_status(_status complaint_status)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT _status NOT IN ('resolved', 'closed', 'rejected', 'withdrawn')
+$$;
+
+-- Create function to enforce allowed status transitions
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reasons only describe the status they were given for
+  IF NEW.status NOT IN ('needs_info', 'on_hold', 'rejected') AND NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+    NEW.status_reason := NULL;
+  END IF;
+
+  -- Scheduled jobs and maintenance run without a user
+  IF _user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.complaint_status_transitions t
+    WHERE t.from_status = OLD.status
+    AND t.to_status = NEW.status
+    AND (
+      (t.allowed_role = 'admin' AND public.has_role(_user_id, 'admin')) OR
+      (t.allowed_role = 'staff' AND public.has_role(_user_id, 'staff') AND NEW.assigned_to = _user_id) OR
+      (t.allowed_role = 'student' AND OLD.student_id = _user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'You can''t move this complaint from % to %',
+      replace(OLD.status::TEXT, '_', ' '), replace(NEW.status::TEXT, '_', ' ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_status_transition
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_status_transition();
+
+-- Create function to change a complaint's status (students have no direct update access)
+CREATE OR REPLACE FUNCTION public.set_complaint_status(
+  _complaint_id UUID,
+  _status complaint_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_complaint(auth.uid(), _complaint_id) THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF _status = 'rejected' AND NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to reject a complaint';
+  END IF;
+
+  UPDATE public.complaints
+  SET
+    status = _status,
+    status_reason = NULLIF(trim(_reason), '')
+  WHERE id = _complaint_id;
+END;
+$$;
+
+-- Confirming a resolution closes the complaint; disputing it reopens it
+CREATE OR REPLACE FUNCTION public.submit_resolution_feedback(
+  _complaint_id UUID,
+  _outcome feedback_outcome,
+  _rating SMALLINT DEFAULT NULL,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+  IF NOT FOUND OR _complaint.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the student who raised this complaint can respond to its resolution';
+  END IF;
+
+  IF _complaint.status <> 'resolved' THEN
+    RAISE EXCEPTION 'This complaint has not been resolved';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.complaint_feedback
+    WHERE complaint_id = _complaint_id
+    AND created_at >= _complaint.resolved_at
+  ) THEN
+    RAISE EXCEPTION 'You have already responded to this resolution';
+  END IF;
+
+  INSERT INTO public.complaint_feedback (complaint_id, student_id, staff_id, outcome, rating, comment)
+  VALUES (_complaint_id, auth.uid(), _complaint.assigned_to, _outcome, _rating, NULLIF(trim(_comment), ''));
+
+  IF _outcome = 'confirmed' THEN
+    UPDATE public.complaints SET status = 'closed' WHERE id = _complaint_id;
+  ELSE
+    UPDATE public.complaints SET status = 'reopened' WHERE id = _complaint_id;
+
+    PERFORM public.create_notification(
+      _complaint.assigned_to,
+      'resolution_disputed',
+      _complaint_id,
+      'Student disputed the resolution',
+      COALESCE(NULLIF(trim(_comment), ''), _complaint.title)
+    );
+  END IF;
+END;
+$$;
+
+-- Only complaints that are open and unassigned can be claimed
+CREATE OR REPLACE FUNCTION public.claim_complaint(_complaint_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _team_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'staff') THEN
+    RAISE EXCEPTION 'Only staff can claim complaints';
+  END IF;
+
+  SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF NOT public.is_team_member_for_category(auth.uid(), _complaint.category) THEN
+    RAISE EXCEPTION 'This complaint is not in your team''s queue';
+  END IF;
+
+  IF _complaint.assigned_to IS NOT NULL THEN
+    RAISE EXCEPTION 'This complaint has already been claimed';
+  END IF;
+
+  IF NOT public.is_open_status(_complaint.status) THEN
+    RAISE EXCEPTION 'This complaint is no longer open';
+  END IF;
+
+  SELECT t.name INTO _team_name
+  FROM public.team_categories tc
+  JOIN public.teams t ON t.id = tc.team_id
+  WHERE tc.category = _complaint.category;
+
+  UPDATE public.complaints
+  SET
+    assigned_to = auth.uid(),
+    status = CASE WHEN status IN ('pending', 'reopened') THEN 'in_progress' ELSE status END,
+    assignment_rule_id = NULL,
+    assignment_reason = format('Claimed from the %s team queue', _team_name)
+  WHERE id = _complaint_id;
+END;
+$$;
+
+-- Include the status reason in the audit trail
+CREATE OR REPLACE FUNCTION public.log_complaint_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, COALESCE(_actor, NEW.student_id), 'created', NEW.status::TEXT);
+
+    IF NEW.assigned_to IS NOT NULL THEN
+      -- Rule-based assignments are made by the system, not the submitting student
+      INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, new_value, note)
+      VALUES (
+        NEW.id,
+        CASE WHEN NEW.assignment_rule_id IS NULL THEN _actor END,
+        'assigned',
+        'assigned_to',
+        NEW.assigned_to::TEXT,
+        NEW.assignment_reason
+      );
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Status changes
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value, note)
+    VALUES (NEW.id, _actor, 'status_changed', 'status', OLD.status::TEXT, NEW.status::TEXT, NEW.status_reason);
+  END IF;
+
+  -- Priority changes
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'priority_changed', 'priority', OLD.priority::TEXT, NEW.priority::TEXT);
+  END IF;
+
+  -- Assignment changes
+  IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value, note)
+    VALUES (
+      NEW.id,
+      _actor,
+      CASE
+        WHEN OLD.assigned_to IS NULL THEN 'assigned'
+        WHEN NEW.assigned_to IS NULL THEN 'unassigned'
+        ELSE 'reassigned'
+      END::complaint_event_type,
+      'assigned_to',
+      OLD.assigned_to::TEXT,
+      NEW.assigned_to::TEXT,
+      NEW.assignment_reason
+    );
+  END IF;
+
+  -- Content edits
+  IF NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'title', OLD.title, NEW.title);
+  END IF;
+
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'description', OLD.description, NEW.description);
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category THEN
+    INSERT INTO public.complaint_events (complaint_id, actor_id, event_type, field, old_value, new_value)
+    VALUES (NEW.id, _actor, 'edited', 'category', OLD.category::TEXT, NEW.category::TEXT);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
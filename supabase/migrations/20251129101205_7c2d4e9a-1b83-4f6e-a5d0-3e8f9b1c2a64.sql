@@ -0,0 +1,160 @@
+-- Add full-text search over title, description and student name
+ALTER TABLE public.complaints
+  ADD COLUMN search_vector TSVECTOR;
+
+-- Create function to build a complaint's search document (title ranks above student name above description)
+CREATE OR REPLACE FUNCTION public.complaint_search_vector(_title TEXT, _description TEXT, _student_id UUID)
+RETURNS TSVECTOR
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', COALESCE(_title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE((SELECT full_name FROM public.profiles WHERE id = _student_id), '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(_description, '')), 'C')
+$$;
+
+-- Create function to keep the search document current
+CREATE OR REPLACE FUNCTION public.update_complaint_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.complaint_search_vector(NEW.title, NEW.description, NEW.student_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_complaint_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, student_id ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_complaint_search_vector();
+
+-- Create function to reindex a student's complaints when their name changes
+CREATE OR REPLACE FUNCTION public.reindex_student_complaints()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.complaints
+  SET search_vector = public.complaint_search_vector(title, description, student_id)
+  WHERE student_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reindex_student_complaints
+  AFTER UPDATE OF full_name ON public.profiles
+  FOR EACH ROW
+  WHEN (NEW.full_name IS DISTINCT FROM OLD.full_name)
+  EXECUTE FUNCTION public.reindex_student_complaints();
+
+-- Backfill existing complaints without touching updated_at
+ALTER TABLE public.complaints DISABLE TRIGGER update_complaints_updated_at;
+
+UPDATE public.complaints
+SET search_vector = public.complaint_search_vector(title, description, student_id);
+
+ALTER TABLE public.complaints ENABLE TRIGGER update_complaints_updated_at;
+
+CREATE INDEX complaints_search_vector_idx ON public.complaints USING GIN (search_vector);
+CREATE INDEX complaints_created_at_idx ON public.complaints (created_at DESC);
+
+-- Create function to turn free text into a prefix query, so partial words match while typing
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(_query TEXT)
+RETURNS TSQUERY
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- Create function to search, filter, sort and page complaints (runs with the caller's RLS)
+CREATE OR REPLACE FUNCTION public.search_complaints(
+  _query TEXT DEFAULT NULL,
+  _status complaint_status DEFAULT NULL,
+  _priority complaint_priority DEFAULT NULL,
+  _assigned_to UUID DEFAULT NULL,
+  _unassigned BOOLEAN DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  category complaint_category,
+  status complaint_status,
+  priority complaint_priority,
+  created_at TIMESTAMPTZ,
+  student_id UUID,
+  student_name TEXT,
+  assigned_to UUID,
+  assignment_reason TEXT,
+  first_response_due_at TIMESTAMPTZ,
+  resolution_due_at TIMESTAMPTZ,
+  first_responded_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  first_response_breached BOOLEAN,
+  resolution_breached BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.description,
+    c.category,
+    c.status,
+    c.priority,
+    c.created_at,
+    c.student_id,
+    p.full_name,
+    c.assigned_to,
+    c.assignment_reason,
+    c.first_response_due_at,
+    c.resolution_due_at,
+    c.first_responded_at,
+    c.resolved_at,
+    c.first_response_breached,
+    c.resolution_breached,
+    count(*) OVER ()
+  FROM public.complaints c
+  CROSS JOIN q
+  LEFT JOIN public.profiles p ON p.id = c.student_id
+  WHERE (q.tsq IS NULL OR c.search_vector @@ q.tsq)
+  AND (_status IS NULL OR c.status = _status)
+  AND (_priority IS NULL OR c.priority = _priority)
+  AND (_assigned_to IS NULL OR c.assigned_to = _assigned_to)
+  -- The unassigned queue only holds complaints that still need an owner
+  AND (
+    _unassigned IS NULL OR
+    (_unassigned AND c.assigned_to IS NULL AND public.is_open_status(c.status)) OR
+    (NOT _unassigned AND c.assigned_to IS NOT NULL)
+  )
+  ORDER BY
+    CASE WHEN _sort = 'relevance' THEN ts_rank(c.search_vector, q.tsq) END DESC NULLS LAST,
+    CASE WHEN _sort = 'priority' THEN c.priority END DESC,
+    CASE WHEN _sort = 'student' THEN p.full_name END,
+    CASE WHEN _sort = 'title' THEN c.title END,
+    CASE WHEN _sort IN ('oldest', 'priority') THEN c.created_at END,
+    c.created_at DESC,
+    c.id
+  LIMIT _limit
+  OFFSET _offset
+$$;
@@ -0,0 +1,157 @@
+-- Create analytics view with one row of timing facts per complaint (runs with the caller's RLS)
+CREATE VIEW public.complaint_analytics
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id,
+  c.category,
+  c.status,
+  c.priority,
+  c.assigned_to,
+  (c.created_at AT TIME ZONE public.sla_timezone())::DATE AS created_on,
+  (c.resolved_at AT TIME ZONE public.sla_timezone())::DATE AS resolved_on,
+  c.resolution_breached,
+  c.first_response_breached,
+  EXTRACT(EPOCH FROM (a.first_assigned_at - c.created_at)) / 3600 AS hours_to_assign,
+  -- Rejected and withdrawn complaints also stop the clock, but were never resolved
+  CASE WHEN c.status IN ('resolved', 'closed') THEN EXTRACT(EPOCH FROM (c.resolved_at - c.created_at)) / 3600 END AS hours_to_resolve
+FROM public.complaints c
+LEFT JOIN LATERAL (
+  SELECT min(e.created_at) AS first_assigned_at
+  FROM public.complaint_events e
+  WHERE e.complaint_id = c.id
+  AND e.event_type = 'assigned'
+) a ON true;
+
+CREATE INDEX complaint_events_assigned_idx ON public.complaint_events (complaint_id, created_at)
+  WHERE event_type = 'assigned';
+
+-- Create function to list the day, week or month buckets covering a date range
+CREATE OR REPLACE FUNCTION public.analytics_buckets(_from DATE, _to DATE, _bucket TEXT)
+RETURNS TABLE (bucket DATE)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF _bucket NOT IN ('day', 'week', 'month') THEN
+    RAISE EXCEPTION 'Analytics can only be grouped by day, week or month';
+  END IF;
+
+  RETURN QUERY
+  SELECT generate_series(
+    date_trunc(_bucket, _from::TIMESTAMP),
+    date_trunc(_bucket, _to::TIMESTAMP),
+    ('1 ' || _bucket)::INTERVAL
+  )::DATE;
+END;
+$$;
+
+-- Create function for complaint volume over time (submitted and resolved per bucket)
+CREATE OR REPLACE FUNCTION public.complaint_volume(_from DATE, _to DATE, _bucket TEXT DEFAULT 'day')
+RETURNS TABLE (bucket DATE, submitted BIGINT, resolved BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH submitted AS (
+    SELECT date_trunc(_bucket, created_on::TIMESTAMP)::DATE AS bucket, count(*) AS total
+    FROM public.complaint_analytics
+    WHERE created_on BETWEEN _from AND _to
+    GROUP BY 1
+  ),
+  resolved AS (
+    SELECT date_trunc(_bucket, resolved_on::TIMESTAMP)::DATE AS bucket, count(*) AS total
+    FROM public.complaint_analytics
+    WHERE resolved_on BETWEEN _from AND _to
+    AND hours_to_resolve IS NOT NULL
+    GROUP BY 1
+  )
+  SELECT b.bucket, COALESCE(s.total, 0), COALESCE(r.total, 0)
+  FROM public.analytics_buckets(_from, _to, _bucket) b
+  LEFT JOIN submitted s ON s.bucket = b.bucket
+  LEFT JOIN resolved r ON r.bucket = b.bucket
+  ORDER BY b.bucket
+$$;
+
+-- Create function for the current status of complaints submitted in a date range
+CREATE OR REPLACE FUNCTION public.complaint_status_distribution(_from DATE, _to DATE)
+RETURNS TABLE (status complaint_status, total BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT status, count(*)
+  FROM public.complaint_analytics
+  WHERE created_on BETWEEN _from AND _to
+  GROUP BY status
+  ORDER BY status
+$$;
+
+-- Create function for complaints per category with their resolution SLA outcome
+CREATE OR REPLACE FUNCTION public.complaint_category_breakdown(_from DATE, _to DATE)
+RETURNS TABLE (category complaint_category, total BIGINT, sla_met BIGINT, sla_breached BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    category,
+    count(*),
+    count(*) FILTER (WHERE resolved_on IS NOT NULL AND NOT resolution_breached),
+    count(*) FILTER (WHERE resolution_breached)
+  FROM public.complaint_analytics
+  WHERE created_on BETWEEN _from AND _to
+  GROUP BY category
+  ORDER BY count(*) DESC, category
+$$;
+
+-- Create function for median hours to first assignment and to resolution per bucket
+CREATE OR REPLACE FUNCTION public.complaint_cycle_times(_from DATE, _to DATE, _bucket TEXT DEFAULT 'day')
+RETURNS TABLE (bucket DATE, median_hours_to_assign NUMERIC, median_hours_to_resolve NUMERIC)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH medians AS (
+    SELECT
+      date_trunc(_bucket, created_on::TIMESTAMP)::DATE AS bucket,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY hours_to_assign) AS to_assign,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY hours_to_resolve) AS to_resolve
+    FROM public.complaint_analytics
+    WHERE created_on BETWEEN _from AND _to
+    GROUP BY 1
+  )
+  SELECT b.bucket, round(m.to_assign::NUMERIC, 1), round(m.to_resolve::NUMERIC, 1)
+  FROM public.analytics_buckets(_from, _to, _bucket) b
+  LEFT JOIN medians m ON m.bucket = b.bucket
+  ORDER BY b.bucket
+$$;
+
+-- Create function for headline numbers over a date range
+CREATE OR REPLACE FUNCTION public.complaint_analytics_summary(_from DATE, _to DATE)
+RETURNS TABLE (total BIGINT, median_hours_to_assign NUMERIC, median_hours_to_resolve NUMERIC)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY hours_to_assign))::NUMERIC, 1),
+    round((percentile_cont(0.5) WITHIN GROUP (ORDER BY hours_to_resolve))::NUMERIC, 1)
+  FROM public.complaint_analytics
+  WHERE created_on BETWEEN _from AND _to
+$$;
+
+-- Create function for the live queue counters shown above the admin dashboard
+CREATE OR REPLACE FUNCTION public.complaint_queue_summary()
+RETURNS TABLE (total BIGINT, unassigned BIGINT, overdue BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE assigned_to IS NULL AND public.is_open_status(status)),
+    count(*) FILTER (WHERE public.is_open_status(status) AND (first_response_breached OR resolution_breached))
+  FROM public.complaints
+$$;
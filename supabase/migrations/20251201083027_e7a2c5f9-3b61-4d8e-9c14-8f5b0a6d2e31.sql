@@ -0,0 +1,201 @@
+-- Create enum for capabilities that roles can be granted
+CREATE TYPE public.app_permission AS ENUM (
+  'submit_complaints',
+  'claim_complaints',
+  'change_status',
+  'view_internal_notes',
+  'view_all_complaints',
+  'assign_complaints',
+  'view_analytics',
+  'manage_users',
+  'manage_settings'
+);
+
+-- Create role_permissions table (the permission matrix; a user holds the union of their roles' grants)
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+-- Seed the defaults that match the previous hard-coded role checks
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('student', 'submit_complaints'),
+  ('staff', 'claim_complaints'),
+  ('staff', 'change_status'),
+  ('staff', 'view_internal_notes'),
+  ('admin', 'change_status'),
+  ('admin', 'view_internal_notes'),
+  ('admin', 'view_all_complaints'),
+  ('admin', 'assign_complaints'),
+  ('admin', 'view_analytics'),
+  ('admin', 'manage_users'),
+  ('admin', 'manage_settings');
+
+-- Create security definer function to check whether any of a user's roles grants a permission
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id
+    AND rp.permission = _permission
+  )
+$$;
+
+-- Enable RLS
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for role_permissions
+CREATE POLICY "Authenticated users can view role permissions"
+  ON public.role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "User managers can manage role permissions"
+  ON public.role_permissions FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Role management
+DROP POLICY "Admins can manage all roles" ON public.user_roles;
+
+CREATE POLICY "User managers can manage all roles"
+  ON public.user_roles FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Complaint access
+DROP POLICY "Users can view accessible complaints" ON public.complaints;
+
+CREATE POLICY "Users can view accessible complaints"
+  ON public.complaints FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = student_id OR
+    auth.uid() = assigned_to OR
+    public.is_team_member_for_category(auth.uid(), category) OR
+    public.has_permission(auth.uid(), 'view_all_complaints')
+  );
+
+DROP POLICY "Admins can manage all complaints" ON public.complaints;
+
+CREATE POLICY "Assigners can manage all complaints"
+  ON public.complaints FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'assign_complaints'));
+
+CREATE OR REPLACE FUNCTION public.can_access_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.complaints
+    WHERE id = _complaint_id
+    AND (
+      student_id = _user_id OR
+      assigned_to = _user_id OR
+      public.is_team_member_for_category(_user_id, category) OR
+      public.has_permission(_user_id, 'view_all_complaints')
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_internal_notes(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(_user_id, 'view_internal_notes')
+$$;
+
+-- Configuration tables
+DROP POLICY "Admins can manage SLA policies" ON public.sla_policies;
+
+CREATE POLICY "Settings managers can manage SLA policies"
+  ON public.sla_policies FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage business hours" ON public.business_hours;
+
+CREATE POLICY "Settings managers can manage business hours"
+  ON public.business_hours FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage holidays" ON public.holidays;
+
+CREATE POLICY "Settings managers can manage holidays"
+  ON public.holidays FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage escalation rules" ON public.priority_escalation_rules;
+
+CREATE POLICY "Settings managers can manage escalation rules"
+  ON public.priority_escalation_rules FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage staff pools" ON public.staff_pools;
+
+CREATE POLICY "Settings managers can manage staff pools"
+  ON public.staff_pools FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage staff pool members" ON public.staff_pool_members;
+
+CREATE POLICY "Settings managers can manage staff pool members"
+  ON public.staff_pool_members FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage assignment rules" ON public.assignment_rules;
+
+CREATE POLICY "Settings managers can manage assignment rules"
+  ON public.assignment_rules FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage teams" ON public.teams;
+
+CREATE POLICY "Settings managers can manage teams"
+  ON public.teams FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage team members" ON public.team_members;
+
+CREATE POLICY "Settings managers can manage team members"
+  ON public.team_members FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage team categories" ON public.team_categories;
+
+CREATE POLICY "Settings managers can manage team categories"
+  ON public.team_categories FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can manage status transitions" ON public.complaint_status_transitions;
+
+CREATE POLICY "Settings managers can manage status transitions"
+  ON public.complaint_status_transitions FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_settings'));
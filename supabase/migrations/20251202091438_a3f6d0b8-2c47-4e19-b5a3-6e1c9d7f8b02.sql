@@ -0,0 +1,55 @@
+-- Create complaint_reads table (when each user last opened a complaint, for unread comment counts)
+CREATE TABLE public.complaint_reads (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE NOT NULL,
+  last_read_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, complaint_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.complaint_reads ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for complaint_reads (writes go through mark_complaint_read)
+CREATE POLICY "Users can view own read markers"
+  ON public.complaint_reads FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create function to record that the current user has read a complaint's comments
+CREATE OR REPLACE FUNCTION public.mark_complaint_read(_complaint_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_access_complaint(auth.uid(), _complaint_id) THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  INSERT INTO public.complaint_reads (user_id, complaint_id, last_read_at)
+  VALUES (auth.uid(), _complaint_id, now())
+  ON CONFLICT (user_id, complaint_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Create function to count comments by others since the current user last read each complaint
+-- (runs with the caller's RLS, so students never count internal notes)
+CREATE OR REPLACE FUNCTION public.unread_comment_counts(_complaint_ids UUID[])
+RETURNS TABLE (complaint_id UUID, unread BIGINT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.complaint_id, count(*)
+  FROM public.comments c
+  LEFT JOIN public.complaint_reads r
+    ON r.complaint_id = c.complaint_id
+    AND r.user_id = auth.uid()
+  WHERE c.complaint_id = ANY(_complaint_ids)
+  AND c.user_id <> auth.uid()
+  AND c.created_at > COALESCE(r.last_read_at, '-infinity'::TIMESTAMPTZ)
+  GROUP BY c.complaint_id
+$$;
+
+CREATE INDEX comments_complaint_id_idx ON public.comments (complaint_id, created_at);
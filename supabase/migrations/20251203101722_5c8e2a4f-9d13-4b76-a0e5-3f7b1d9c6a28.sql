@@ -0,0 +1,341 @@
+-- Add free-form tags to complaints
+ALTER TABLE public.complaints
+  ADD COLUMN tags TEXT[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX complaints_tags_idx ON public.complaints USING GIN (tags);
+
+-- Create bulk_operations table (one row per bulk action, kept so it can be undone)
+CREATE TABLE public.bulk_operations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('assign', 'status', 'priority', 'tag')),
+  value TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  undone_at TIMESTAMPTZ
+);
+
+-- Create bulk_operation_items table (per-complaint outcome and the values needed to undo it)
+CREATE TABLE public.bulk_operation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id UUID REFERENCES public.bulk_operations(id) ON DELETE CASCADE NOT NULL,
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE NOT NULL,
+  succeeded BOOLEAN NOT NULL,
+  error TEXT,
+  previous_assigned_to UUID,
+  previous_status complaint_status,
+  previous_status_reason TEXT,
+  previous_priority complaint_priority,
+  previous_tags TEXT[]
+);
+
+CREATE INDEX bulk_operation_items_operation_id_idx ON public.bulk_operation_items (operation_id);
+
+-- Enable RLS
+ALTER TABLE public.bulk_operations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bulk_operation_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for bulk operations (writes go through bulk_update_complaints and undo_bulk_operation)
+CREATE POLICY "Users can view own bulk operations"
+  ON public.bulk_operations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = actor_id);
+
+CREATE POLICY "Users can view items of own bulk operations"
+  ON public.bulk_operation_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.bulk_operations
+      WHERE id = operation_id
+      AND actor_id = auth.uid()
+    )
+  );
+
+-- Let undo put a complaint back in a status the lifecycle would not normally allow
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reasons only describe the status they were given for
+  IF NEW.status NOT IN ('needs_info', 'on_hold', 'rejected') AND NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+    NEW.status_reason := NULL;
+  END IF;
+
+  -- Scheduled jobs, maintenance and bulk undo run outside the lifecycle
+  IF _user_id IS NULL OR current_setting('app.restoring_complaints', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.complaint_status_transitions t
+    WHERE t.from_status = OLD.status
+    AND t.to_status = NEW.status
+    AND (
+      (t.allowed_role = 'admin' AND public.has_role(_user_id, 'admin')) OR
+      (t.allowed_role = 'staff' AND public.has_role(_user_id, 'staff') AND NEW.assigned_to = _user_id) OR
+      (t.allowed_role = 'student' AND OLD.student_id = _user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'You can''t move this complaint from % to %',
+      replace(OLD.status::TEXT, '_', ' '), replace(NEW.status::TEXT, '_', ' ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create function to apply one action to many complaints in a single transaction
+-- (each row runs in its own savepoint, so one failure doesn't undo the others)
+CREATE OR REPLACE FUNCTION public.bulk_update_complaints(
+  _complaint_ids UUID[],
+  _action TEXT,
+  _value TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _operation_id UUID;
+  _complaint_id UUID;
+  _complaint public.complaints%ROWTYPE;
+  _tag TEXT := lower(trim(_value));
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'assign_complaints') THEN
+    RAISE EXCEPTION 'You don''t have permission to manage complaints in bulk';
+  END IF;
+
+  IF _action NOT IN ('assign', 'status', 'priority', 'tag') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', _action;
+  END IF;
+
+  IF NULLIF(trim(_value), '') IS NULL THEN
+    RAISE EXCEPTION 'Choose a value for this bulk action';
+  END IF;
+
+  INSERT INTO public.bulk_operations (actor_id, action, value, reason)
+  VALUES (auth.uid(), _action, CASE WHEN _action = 'tag' THEN _tag ELSE _value END, NULLIF(trim(_reason), ''))
+  RETURNING id INTO _operation_id;
+
+  FOREACH _complaint_id IN ARRAY _complaint_ids LOOP
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+    -- Complaints deleted since they were selected have nothing left to change
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      CASE _action
+        WHEN 'assign' THEN
+          IF NOT public.has_role(_value::UUID, 'staff') THEN
+            RAISE EXCEPTION 'The selected user is not a staff member';
+          END IF;
+
+          -- Fresh and reopened complaints start moving as soon as they have an owner
+          UPDATE public.complaints
+          SET
+            assigned_to = _value::UUID,
+            status = CASE WHEN status IN ('pending', 'reopened') THEN 'in_progress' ELSE status END,
+            assignment_rule_id = NULL,
+            assignment_reason = 'Assigned in bulk by an admin'
+          WHERE id = _complaint_id;
+
+        WHEN 'status' THEN
+          IF _value = 'rejected' AND NULLIF(trim(_reason), '') IS NULL THEN
+            RAISE EXCEPTION 'A reason is required to reject a complaint';
+          END IF;
+
+          UPDATE public.complaints
+          SET
+            status = _value::complaint_status,
+            status_reason = NULLIF(trim(_reason), '')
+          WHERE id = _complaint_id;
+
+        WHEN 'priority' THEN
+          UPDATE public.complaints
+          SET priority = _value::complaint_priority
+          WHERE id = _complaint_id;
+
+        WHEN 'tag' THEN
+          UPDATE public.complaints
+          SET tags = array_append(tags, _tag)
+          WHERE id = _complaint_id
+          AND NOT _tag = ANY(tags);
+      END CASE;
+
+      INSERT INTO public.bulk_operation_items (
+        operation_id, complaint_id, succeeded,
+        previous_assigned_to, previous_status, previous_status_reason, previous_priority, previous_tags
+      )
+      VALUES (
+        _operation_id, _complaint_id, true,
+        _complaint.assigned_to, _complaint.status, _complaint.status_reason, _complaint.priority, _complaint.tags
+      );
+    EXCEPTION WHEN OTHERS THEN
+      INSERT INTO public.bulk_operation_items (operation_id, complaint_id, succeeded, error)
+      VALUES (_operation_id, _complaint_id, false, SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN _operation_id;
+END;
+$$;
+
+-- Create function to restore the complaints a bulk operation changed
+CREATE OR REPLACE FUNCTION public.undo_bulk_operation(_operation_id UUID)
+RETURNS TABLE (complaint_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _operation public.bulk_operations%ROWTYPE;
+  _item public.bulk_operation_items%ROWTYPE;
+BEGIN
+  SELECT * INTO _operation FROM public.bulk_operations WHERE id = _operation_id FOR UPDATE;
+
+  IF NOT FOUND OR _operation.actor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Bulk operation not found';
+  END IF;
+
+  IF _operation.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This bulk operation has already been undone';
+  END IF;
+
+  PERFORM set_config('app.restoring_complaints', 'on', true);
+
+  FOR _item IN
+    SELECT * FROM public.bulk_operation_items i
+    WHERE i.operation_id = _operation_id
+    AND i.succeeded
+  LOOP
+    BEGIN
+      -- Don't overwrite work done on the complaint after the bulk action
+      IF EXISTS (
+        SELECT 1 FROM public.complaints c
+        WHERE c.id = _item.complaint_id
+        AND c.updated_at > _operation.created_at
+      ) THEN
+        RAISE EXCEPTION 'Changed since the bulk action';
+      END IF;
+
+      UPDATE public.complaints
+      SET
+        assigned_to = _item.previous_assigned_to,
+        status = _item.previous_status,
+        status_reason = _item.previous_status_reason,
+        priority = _item.previous_priority,
+        tags = _item.previous_tags
+      WHERE id = _item.complaint_id;
+    EXCEPTION WHEN OTHERS THEN
+      complaint_id := _item.complaint_id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+
+  PERFORM set_config('app.restoring_complaints', 'off', true);
+
+  UPDATE public.bulk_operations SET undone_at = now() WHERE id = _operation_id;
+END;
+$$;
+
+-- Return tags with search results (the return type changed, so the function is recreated)
+DROP FUNCTION public.search_complaints(TEXT, complaint_status, complaint_priority, UUID, BOOLEAN, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_complaints(
+  _query TEXT DEFAULT NULL,
+  _status complaint_status DEFAULT NULL,
+  _priority complaint_priority DEFAULT NULL,
+  _assigned_to UUID DEFAULT NULL,
+  _unassigned BOOLEAN DEFAULT NULL,
+  _sort TEXT DEFAULT 'newest',
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  category complaint_category,
+  status complaint_status,
+  priority complaint_priority,
+  created_at TIMESTAMPTZ,
+  student_id UUID,
+  student_name TEXT,
+  assigned_to UUID,
+  assignment_reason TEXT,
+  first_response_due_at TIMESTAMPTZ,
+  resolution_due_at TIMESTAMPTZ,
+  first_responded_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  first_response_breached BOOLEAN,
+  resolution_breached BOOLEAN,
+  tags TEXT[],
+  total_count BIGINT
+)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(_query) AS tsq
+  )
+  SELECT
+    c.id,
+    c.title,
+    c.description,
+    c.category,
+    c.status,
+    c.priority,
+    c.created_at,
+    c.student_id,
+    p.full_name,
+    c.assigned_to,
+    c.assignment_reason,
+    c.first_response_due_at,
+    c.resolution_due_at,
+    c.first_responded_at,
+    c.resolved_at,
+    c.first_response_breached,
+    c.resolution_breached,
+    c.tags,
+    count(*) OVER ()
+  FROM public.complaints c
+  CROSS JOIN q
+  LEFT JOIN public.profiles p ON p.id = c.student_id
+  WHERE (q.tsq IS NULL OR c.search_vector @@ q.tsq)
+  AND (_status IS NULL OR c.status = _status)
+  AND (_priority IS NULL OR c.priority = _priority)
+  AND (_assigned_to IS NULL OR c.assigned_to = _assigned_to)
+  -- The unassigned queue only holds complaints that still need an owner
+  AND (
+    _unassigned IS NULL OR
+    (_unassigned AND c.assigned_to IS NULL AND public.is_open_status(c.status)) OR
+    (NOT _unassigned AND c.assigned_to IS NOT NULL)
+  )
+  ORDER BY
+    CASE WHEN _sort = 'relevance' THEN ts_rank(c.search_vector, q.tsq) END DESC NULLS LAST,
+    CASE WHEN _sort = 'priority' THEN c.priority END DESC,
+    CASE WHEN _sort = 'student' THEN p.full_name END,
+    CASE WHEN _sort = 'title' THEN c.title END,
+    CASE WHEN _sort IN ('oldest', 'priority') THEN c.created_at END,
+    c.created_at DESC,
+    c.id
+  LIMIT _limit
+  OFFSET _offset
+$$;
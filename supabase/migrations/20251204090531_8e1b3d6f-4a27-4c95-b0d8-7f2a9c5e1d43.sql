@@ -0,0 +1,31 @@
+-- Add the intake batch a user belongs to (set on import or at sign-up)
+ALTER TABLE public.profiles
+  ADD COLUMN batch TEXT;
+
+CREATE INDEX profiles_email_lower_idx ON public.profiles (lower(email));
+CREATE INDEX profiles_batch_idx ON public.profiles (batch);
+
+-- Keep the batch from sign-up or invitation metadata on the new profile
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Insert into profiles
+  INSERT INTO public.profiles (id, full_name, email, batch)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    NEW.email,
+    NULLIF(trim(NEW.raw_user_meta_data->>'batch'), '')
+  );
+  
+  -- Assign default role as student (the provisioning function replaces it for imported staff)
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'student');
+  
+  RETURN NEW;
+END;
+$$;
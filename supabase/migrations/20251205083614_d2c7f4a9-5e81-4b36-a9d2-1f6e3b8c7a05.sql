@@ -0,0 +1,88 @@
+-- Create invitations table (an admin invites an email address to sign up with a given role)
+CREATE TABLE public.invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  role app_role NOT NULL,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(32), 'hex'),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  expires_at TIMESTAMPTZ DEFAULT now() + INTERVAL '7 days' NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX invitations_email_lower_idx ON public.invitations (lower(email));
+
+-- Enable RLS
+ALTER TABLE public.invitations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for invitations
+CREATE POLICY "User managers can manage invitations"
+  ON public.invitations FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_users'))
+  WITH CHECK (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Create function for the sign-up page to look up a pending invitation by its token
+-- (callable before sign-in, so it only reveals the invited email and role)
+CREATE OR REPLACE FUNCTION public.get_invitation(_token TEXT)
+RETURNS TABLE (email TEXT, role app_role, expires_at TIMESTAMPTZ)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email, role, expires_at
+  FROM public.invitations
+  WHERE token = _token
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > now()
+$$;
+
+-- Give invited users their invited role instead of the default student role
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations%ROWTYPE;
+BEGIN
+  -- Insert into profiles
+  INSERT INTO public.profiles (id, full_name, email, batch)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    NEW.email,
+    NULLIF(trim(NEW.raw_user_meta_data->>'batch'), '')
+  );
+
+  -- The token only counts for the address it was sent to, and only once
+  SELECT * INTO _invitation
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+  AND lower(email) = lower(NEW.email)
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > now()
+  FOR UPDATE;
+
+  IF FOUND THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, _invitation.role);
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = _invitation.id;
+  ELSE
+    -- Assign default role as student (the provisioning function replaces it for imported staff)
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
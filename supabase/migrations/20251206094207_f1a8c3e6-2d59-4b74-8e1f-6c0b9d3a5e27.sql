@@ -0,0 +1,146 @@
+-- Create function to check whether the caller's session passed a second factor
+CREATE OR REPLACE FUNCTION public.is_aal2()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt()->>'aal', 'aal1') = 'aal2'
+$$;
+
+-- Create function to check that staff and admins signed in with their second factor
+-- (students don't need one, and neither do scheduled jobs without a user)
+CREATE OR REPLACE FUNCTION public.mfa_satisfied()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    auth.uid() IS NULL OR
+    public.is_aal2() OR
+    NOT (public.has_role(auth.uid(), 'staff') OR public.has_role(auth.uid(), 'admin'))
+$$;
+
+-- Require the second factor for every write on privileged tables. Restrictive policies
+-- are ANDed with the existing ones, so reads and each table's own rules are unchanged.
+DO $$
+DECLARE
+  _table TEXT;
+  _command TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'user_roles', 'role_permissions', 'invitations', 'complaints', 'comments', 'attachments',
+    'sla_policies', 'business_hours', 'holidays', 'priority_escalation_rules', 'staff_pools',
+    'staff_pool_members', 'assignment_rules', 'teams', 'team_members', 'team_categories',
+    'complaint_status_transitions'
+  ] LOOP
+    FOREACH _command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR %s TO authenticated %s',
+        'Staff and admins need MFA to ' || lower(_command),
+        _table,
+        _command,
+        CASE WHEN _command = 'INSERT'
+          THEN 'WITH CHECK (public.mfa_satisfied())'
+          ELSE 'USING (public.mfa_satisfied())'
+        END
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+-- SECURITY DEFINER functions skip RLS, so complaint writes made through them are checked here
+CREATE OR REPLACE FUNCTION public.require_mfa_for_complaint_writes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.mfa_satisfied() THEN
+    RAISE EXCEPTION 'Sign in with your authenticator app to make this change';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_mfa_for_complaint_writes
+  BEFORE UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_mfa_for_complaint_writes();
+
+-- Create mfa_backup_codes table (single-use recovery codes, stored hashed)
+CREATE TABLE public.mfa_backup_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX mfa_backup_codes_user_id_idx ON public.mfa_backup_codes (user_id);
+
+-- Enable RLS
+ALTER TABLE public.mfa_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for backup codes (only hashes are stored; codes are issued and redeemed through functions)
+CREATE POLICY "Users can view own backup codes"
+  ON public.mfa_backup_codes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create function to replace the caller's backup codes; the plain codes are only ever returned here
+CREATE OR REPLACE FUNCTION public.generate_mfa_backup_codes()
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code TEXT;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.is_aal2() THEN
+    RAISE EXCEPTION 'Verify your authenticator app before creating backup codes';
+  END IF;
+
+  DELETE FROM public.mfa_backup_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    _code := encode(extensions.gen_random_bytes(5), 'hex');
+    _code := substr(_code, 1, 5) || '-' || substr(_code, 6, 5);
+
+    INSERT INTO public.mfa_backup_codes (user_id, code_hash)
+    VALUES (auth.uid(), extensions.crypt(_code, extensions.gen_salt('bf')));
+
+    RETURN NEXT _code;
+  END LOOP;
+END;
+$$;
+
+-- Create function to use up one of the caller's backup codes; returns false if none matches
+CREATE OR REPLACE FUNCTION public.consume_mfa_backup_code(_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code_id UUID;
+BEGIN
+  SELECT id INTO _code_id
+  FROM public.mfa_backup_codes
+  WHERE user_id = auth.uid()
+  AND used_at IS NULL
+  AND code_hash = extensions.crypt(lower(trim(_code)), code_hash)
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _code_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.mfa_backup_codes SET used_at = now() WHERE id = _code_id;
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,184 @@
+-- Create signup_allowlist table (email domains and individual addresses that may sign up
+-- as students without review; an entry's batch is given to everyone who signs up through it)
+CREATE TABLE public.signup_allowlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind TEXT NOT NULL CHECK (kind IN ('domain', 'email')),
+  value TEXT NOT NULL CHECK (value = lower(trim(value)) AND value <> ''),
+  batch TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  UNIQUE (kind, value)
+);
+
+-- Create registrations table (sign-ups that matched no allowlist entry and wait for review)
+CREATE TABLE public.registrations (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ
+);
+
+CREATE INDEX registrations_status_idx ON public.registrations (status, created_at);
+
+-- Enable RLS
+ALTER TABLE public.signup_allowlist ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.registrations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for signup_allowlist
+CREATE POLICY "User managers can manage the signup allowlist"
+  ON public.signup_allowlist FOR ALL
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_users'))
+  WITH CHECK (public.has_permission(auth.uid(), 'manage_users'));
+
+CREATE POLICY "Staff and admins need MFA to insert"
+  ON public.signup_allowlist AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (public.mfa_satisfied());
+
+CREATE POLICY "Staff and admins need MFA to update"
+  ON public.signup_allowlist AS RESTRICTIVE FOR UPDATE
+  TO authenticated
+  USING (public.mfa_satisfied());
+
+CREATE POLICY "Staff and admins need MFA to delete"
+  ON public.signup_allowlist AS RESTRICTIVE FOR DELETE
+  TO authenticated
+  USING (public.mfa_satisfied());
+
+-- RLS Policies for registrations (changed only through review_registration)
+CREATE POLICY "Users can view own registration"
+  ON public.registrations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "User managers can view registrations"
+  ON public.registrations FOR SELECT
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Create function to find the allowlist entry for an address (an exact address wins over its domain)
+CREATE OR REPLACE FUNCTION public.signup_allowlist_entry(_email TEXT)
+RETURNS public.signup_allowlist
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.signup_allowlist
+  WHERE (kind = 'email' AND value = lower(trim(_email)))
+  OR (kind = 'domain' AND value = split_part(lower(trim(_email)), '@', 2))
+  ORDER BY kind = 'email' DESC
+  LIMIT 1
+$$;
+
+-- Create function for the sign-up page to tell whether an address needs review
+CREATE OR REPLACE FUNCTION public.is_signup_allowed(_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (public.signup_allowlist_entry(_email)).id IS NOT NULL
+$$;
+
+-- Create function to approve or reject a pending registration
+CREATE OR REPLACE FUNCTION public.review_registration(_user_id UUID, _approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_users') THEN
+    RAISE EXCEPTION 'Not allowed to review registrations';
+  END IF;
+
+  IF NOT public.mfa_satisfied() THEN
+    RAISE EXCEPTION 'Sign in with your authenticator app to make this change';
+  END IF;
+
+  UPDATE public.registrations
+  SET
+    status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE user_id = _user_id
+  AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration not found or already reviewed';
+  END IF;
+
+  IF _approve THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (_user_id, 'student')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Only give the student role to allowlisted sign-ups; the rest wait for review with no role
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.invitations%ROWTYPE;
+  _entry public.signup_allowlist%ROWTYPE;
+BEGIN
+  -- Insert into profiles
+  INSERT INTO public.profiles (id, full_name, email, batch)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', 'User'),
+    NEW.email,
+    NULLIF(trim(NEW.raw_user_meta_data->>'batch'), '')
+  );
+
+  -- The token only counts for the address it was sent to, and only once
+  SELECT * INTO _invitation
+  FROM public.invitations
+  WHERE token = NEW.raw_user_meta_data->>'invite_token'
+  AND lower(email) = lower(NEW.email)
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > now()
+  FOR UPDATE;
+
+  IF FOUND THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, _invitation.role);
+
+    UPDATE public.invitations
+    SET accepted_at = now(), accepted_by = NEW.id
+    WHERE id = _invitation.id;
+
+    RETURN NEW;
+  END IF;
+
+  _entry := public.signup_allowlist_entry(NEW.email);
+
+  IF _entry.id IS NOT NULL THEN
+    -- Assign default role as student (the provisioning function replaces it for imported staff)
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'student');
+
+    UPDATE public.profiles
+    SET batch = COALESCE(batch, _entry.batch)
+    WHERE id = NEW.id;
+  ELSE
+    -- The provisioning function approves the users it imports
+    INSERT INTO public.registrations (user_id, email)
+    VALUES (NEW.id, NEW.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,106 @@
+-- Add avatar to profiles (a path in the avatars bucket)
+ALTER TABLE public.profiles ADD COLUMN avatar_path TEXT;
+
+-- Create public storage bucket for avatars (2 MB, images only)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,
+  2097152,
+  ARRAY[
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp'
+  ]
+);
+
+-- Storage policies (objects are stored as <user_id>/<file>)
+CREATE POLICY "Users can read avatars"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars' AND
+    (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- Create notification_preferences table (one row per event type the user changed;
+-- without a row both channels are on)
+CREATE TABLE public.notification_preferences (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type notification_type NOT NULL,
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  email BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, type)
+);
+
+-- Enable RLS
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for notification_preferences
+CREATE POLICY "Users can manage own notification preferences"
+  ON public.notification_preferences FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at();
+
+-- Create function to check whether a user wants an event on a channel ('in_app' or 'email')
+CREATE OR REPLACE FUNCTION public.wants_notification(_user_id UUID, _type notification_type, _channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE _channel WHEN 'email' THEN email ELSE in_app END
+      FROM public.notification_preferences
+      WHERE user_id = _user_id
+      AND type = _type
+    ),
+    true
+  )
+$$;
+
+-- Drop in-app notifications the recipient turned off. Several functions insert into
+-- notifications directly, so this is checked on the table rather than in create_notification.
+CREATE OR REPLACE FUNCTION public.skip_unwanted_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.wants_notification(NEW.user_id, NEW.type, 'in_app') THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER skip_unwanted_notifications
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.skip_unwanted_notifications();
@@ -0,0 +1,214 @@
+-- Email-only events (there's no bell notification for them, but they have email preferences)
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'complaint_created';
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'resolved';
+
+-- Create email_outbox table (emails waiting to be sent by the send-notification-emails function).
+-- data holds the template values as they were when the event happened.
+CREATE TABLE public.email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type notification_type NOT NULL,
+  complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE,
+  data JSONB DEFAULT '{}'::JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  sent_at TIMESTAMPTZ
+);
+
+CREATE INDEX email_outbox_due_idx ON public.email_outbox (next_attempt_at) WHERE status IN ('pending', 'sending');
+
+-- Enable RLS (no policies: only the service role reads and writes the outbox)
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Create function to queue an email, unless the recipient turned that event off
+CREATE OR REPLACE FUNCTION public.enqueue_email(
+  _user_id UUID,
+  _type notification_type,
+  _complaint_id UUID,
+  _data JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL OR NOT public.wants_notification(_user_id, _type, 'email') THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.email_outbox (user_id, type, complaint_id, data)
+  VALUES (_user_id, _type, _complaint_id, _data);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_email(UUID, notification_type, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Create function to queue emails for complaint events. Unlike the bell, the student also gets a
+-- receipt for their own new complaint; other events skip whoever caused them.
+CREATE OR REPLACE FUNCTION public.enqueue_complaint_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_email(
+      NEW.student_id,
+      'complaint_created'::notification_type,
+      NEW.id,
+      jsonb_build_object('title', NEW.title, 'category', NEW.category, 'priority', NEW.priority)
+    );
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+    AND NEW.assigned_to IS DISTINCT FROM auth.uid()
+    AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+    PERFORM public.enqueue_email(
+      NEW.assigned_to,
+      'assigned'::notification_type,
+      NEW.id,
+      jsonb_build_object('title', NEW.title, 'category', NEW.category, 'priority', NEW.priority)
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND NEW.student_id IS DISTINCT FROM auth.uid() THEN
+    PERFORM public.enqueue_email(
+      NEW.student_id,
+      CASE WHEN NEW.status = 'resolved'
+        THEN 'resolved'::notification_type
+        ELSE 'status_changed'::notification_type
+      END,
+      NEW.id,
+      jsonb_build_object('title', NEW.title, 'status', NEW.status, 'reason', NEW.status_reason)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_complaint_emails
+  AFTER INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_complaint_emails();
+
+-- Create function to queue emails for new comments (students never hear about internal notes)
+CREATE OR REPLACE FUNCTION public.enqueue_comment_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _data JSONB;
+BEGIN
+  SELECT * INTO _complaint FROM public.complaints WHERE id = NEW.complaint_id;
+
+  _data := jsonb_build_object(
+    'title', _complaint.title,
+    'author', (SELECT full_name FROM public.profiles WHERE id = NEW.user_id),
+    'excerpt', left(NEW.message, 500),
+    'internal', NEW.is_internal
+  );
+
+  IF NOT NEW.is_internal AND _complaint.student_id IS DISTINCT FROM NEW.user_id THEN
+    PERFORM public.enqueue_email(_complaint.student_id, 'new_comment'::notification_type, _complaint.id, _data);
+  END IF;
+
+  IF _complaint.assigned_to IS DISTINCT FROM NEW.user_id THEN
+    PERFORM public.enqueue_email(_complaint.assigned_to, 'new_comment'::notification_type, _complaint.id, _data);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enqueue_comment_emails
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_comment_emails();
+
+-- Create function for the sender to take a batch of due emails. Claimed rows get a ten-minute
+-- lease, so a sender that dies mid-batch leaves them to be picked up again.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.email_outbox o
+  SET
+    status = 'sending',
+    attempts = o.attempts + 1,
+    next_attempt_at = now() + INTERVAL '10 minutes'
+  WHERE o.id IN (
+    SELECT id
+    FROM public.email_outbox
+    WHERE status IN ('pending', 'sending')
+    AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+-- Create function to record a send attempt. Failures are retried after 1, 2, 4, 8 and 16
+-- minutes; the sixth failed attempt is final.
+CREATE OR REPLACE FUNCTION public.record_email_attempt(_id UUID, _error TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.email_outbox
+  SET
+    status = CASE
+      WHEN _error IS NULL THEN 'sent'
+      WHEN attempts >= 6 THEN 'failed'
+      ELSE 'pending'
+    END,
+    sent_at = CASE WHEN _error IS NULL THEN now() END,
+    last_error = _error,
+    next_attempt_at = now() + make_interval(mins => power(2, attempts - 1)::INTEGER)
+  WHERE id = _id
+  AND status = 'sending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_email_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Drain the outbox every minute. The job reads the project URL and service role key from Vault;
+-- locally, create them once with:
+--   SELECT vault.create_secret('http://host.docker.internal:54321', 'project_url');
+--   SELECT vault.create_secret('<service role key from supabase status>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-notification-emails',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-notification-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  )
+  $$
+);
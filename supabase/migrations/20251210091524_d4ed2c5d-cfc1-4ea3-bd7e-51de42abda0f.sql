@@ -0,0 +1,12 @@
+-- Registrants still waiting for review (or rejected) have an account but no role. The
+-- permissive INSERT policies only check ownership, so these restrictive ones keep them
+-- from filing complaints or commenting until an admin approves them.
+CREATE POLICY "Only users who can submit complaints can create them"
+  ON public.complaints AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission(auth.uid(), 'submit_complaints'));
+
+CREATE POLICY "Only users with a role can comment"
+  ON public.comments AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (public.get_user_role(auth.uid()) IS NOT NULL);
@@ -0,0 +1,99 @@
+-- Check the seeded permissions instead of role names, so editing the permission matrix
+-- changes what the database allows and not just what the UI shows. submit_complaints is
+-- enforced by the restrictive INSERT policy on complaints.
+DROP POLICY "Staff can update assigned complaints" ON public.complaints;
+
+CREATE POLICY "Status changers can update assigned complaints"
+  ON public.complaints FOR UPDATE
+  TO authenticated
+  USING (public.has_permission(auth.uid(), 'change_status') AND auth.uid() = assigned_to);
+
+CREATE OR REPLACE FUNCTION public.claim_complaint(_complaint_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _complaint public.complaints%ROWTYPE;
+  _team_name TEXT;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'claim_complaints') THEN
+    RAISE EXCEPTION 'You don''t have permission to claim complaints';
+  END IF;
+
+  SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Complaint not found';
+  END IF;
+
+  IF NOT public.is_team_member_for_category(auth.uid(), _complaint.category) THEN
+    RAISE EXCEPTION 'This complaint is not in your team''s queue';
+  END IF;
+
+  IF _complaint.assigned_to IS NOT NULL THEN
+    RAISE EXCEPTION 'This complaint has already been claimed';
+  END IF;
+
+  IF NOT public.is_open_status(_complaint.status) THEN
+    RAISE EXCEPTION 'This complaint is no longer open';
+  END IF;
+
+  SELECT t.name INTO _team_name
+  FROM public.team_categories tc
+  JOIN public.teams t ON t.id = tc.team_id
+  WHERE tc.category = _complaint.category;
+
+  UPDATE public.complaints
+  SET
+    assigned_to = auth.uid(),
+    status = CASE WHEN status IN ('pending', 'reopened') THEN 'in_progress' ELSE status END,
+    assignment_rule_id = NULL,
+    assignment_reason = format('Claimed from the %s team queue', _team_name)
+  WHERE id = _complaint_id;
+END;
+$$;
+
+-- Admin transitions need a permission to act on any complaint; staff ones only apply to the assignee
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reasons only describe the status they were given for
+  IF NEW.status NOT IN ('needs_info', 'on_hold', 'rejected') AND NEW.status_reason IS NOT DISTINCT FROM OLD.status_reason THEN
+    NEW.status_reason := NULL;
+  END IF;
+
+  -- Scheduled jobs, maintenance and bulk undo run outside the lifecycle
+  IF _user_id IS NULL OR current_setting('app.restoring_complaints', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.complaint_status_transitions t
+    WHERE t.from_status = OLD.status
+    AND t.to_status = NEW.status
+    AND (
+      (t.allowed_role = 'admin' AND public.has_permission(_user_id, 'change_status') AND public.has_permission(_user_id, 'assign_complaints')) OR
+      (t.allowed_role = 'staff' AND public.has_permission(_user_id, 'change_status') AND NEW.assigned_to = _user_id) OR
+      (t.allowed_role = 'student' AND OLD.student_id = _user_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'You can''t move this complaint from % to %',
+      replace(OLD.status::TEXT, '_', ' '), replace(NEW.status::TEXT, '_', ' ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
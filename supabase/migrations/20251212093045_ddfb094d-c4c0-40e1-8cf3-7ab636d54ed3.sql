@@ -0,0 +1,97 @@
+-- Undo checked updated_at to spot later edits, but the SLA and escalation jobs touch
+-- complaints too, so any complaint they reached after a bulk action could no longer be
+-- undone. Compare the fields the action set with what the complaint holds now instead,
+-- and only restore those fields so unrelated changes survive the undo.
+CREATE OR REPLACE FUNCTION public.undo_bulk_operation(_operation_id UUID)
+RETURNS TABLE (complaint_id UUID, error TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _operation public.bulk_operations%ROWTYPE;
+  _item public.bulk_operation_items%ROWTYPE;
+  _complaint public.complaints%ROWTYPE;
+  _unchanged BOOLEAN;
+BEGIN
+  SELECT * INTO _operation FROM public.bulk_operations WHERE id = _operation_id FOR UPDATE;
+
+  IF NOT FOUND OR _operation.actor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Bulk operation not found';
+  END IF;
+
+  IF _operation.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This bulk operation has already been undone';
+  END IF;
+
+  PERFORM set_config('app.restoring_complaints', 'on', true);
+
+  FOR _item IN
+    SELECT * FROM public.bulk_operation_items i
+    WHERE i.operation_id = _operation_id
+    AND i.succeeded
+  LOOP
+    BEGIN
+      SELECT * INTO _complaint FROM public.complaints c WHERE c.id = _item.complaint_id FOR UPDATE;
+
+      -- Don't overwrite work done on the complaint after the bulk action
+      _unchanged := CASE _operation.action
+        WHEN 'assign' THEN
+          _complaint.assigned_to IS NOT DISTINCT FROM _operation.value::UUID AND
+          _complaint.status IS NOT DISTINCT FROM CASE
+            WHEN _item.previous_status IN ('pending', 'reopened') THEN 'in_progress'::complaint_status
+            ELSE _item.previous_status
+          END
+        WHEN 'status' THEN
+          _complaint.status IS NOT DISTINCT FROM _operation.value::complaint_status
+        WHEN 'priority' THEN
+          _complaint.priority IS NOT DISTINCT FROM _operation.value::complaint_priority
+        WHEN 'tag' THEN
+          _complaint.tags IS NOT DISTINCT FROM CASE
+            WHEN _operation.value = ANY(_item.previous_tags) THEN _item.previous_tags
+            ELSE array_append(_item.previous_tags, _operation.value)
+          END
+      END;
+
+      IF NOT _unchanged THEN
+        RAISE EXCEPTION 'Changed since the bulk action';
+      END IF;
+
+      CASE _operation.action
+        WHEN 'assign' THEN
+          UPDATE public.complaints
+          SET
+            assigned_to = _item.previous_assigned_to,
+            status = _item.previous_status,
+            status_reason = _item.previous_status_reason
+          WHERE id = _item.complaint_id;
+
+        WHEN 'status' THEN
+          UPDATE public.complaints
+          SET
+            status = _item.previous_status,
+            status_reason = _item.previous_status_reason
+          WHERE id = _item.complaint_id;
+
+        WHEN 'priority' THEN
+          UPDATE public.complaints
+          SET priority = _item.previous_priority
+          WHERE id = _item.complaint_id;
+
+        WHEN 'tag' THEN
+          UPDATE public.complaints
+          SET tags = _item.previous_tags
+          WHERE id = _item.complaint_id;
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      complaint_id := _item.complaint_id;
+      error := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+
+  PERFORM set_config('app.restoring_complaints', 'off', true);
+
+  UPDATE public.bulk_operations SET undone_at = now() WHERE id = _operation_id;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- Team membership only counts while the user can still work complaints, so demoted staff
+-- lose access to their old team's queue even if their team_members rows remain
+CREATE OR REPLACE FUNCTION public.is_team_member_for_category(_user_id UUID, _category complaint_category)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(_user_id, 'claim_complaints') AND EXISTS (
+    SELECT 1
+    FROM public.team_categories tc
+    JOIN public.team_members tm ON tm.team_id = tc.team_id
+    WHERE tc.category = _category
+    AND tm.user_id = _user_id
+  )
+$$;
@@ -51,6 +51,30 @@ export default {
           DEFAULT: "hsl(var(--resolved))",
           foreground: "hsl(var(--resolved-foreground))",
         },
+        "needs-info": {
+          DEFAULT: "hsl(var(--needs-info))",
+          foreground: "hsl(var(--needs-info-foreground))",
+        },
+        "on-hold": {
+          DEFAULT: "hsl(var(--on-hold))",
+          foreground: "hsl(var(--on-hold-foreground))",
+        },
+        rejected: {
+          DEFAULT: "hsl(var(--rejected))",
+          foreground: "hsl(var(--rejected-foreground))",
+        },
+        reopened: {
+          DEFAULT: "hsl(var(--reopened))",
+          foreground: "hsl(var(--reopened-foreground))",
+        },
+        closed: {
+          DEFAULT: "hsl(var(--closed))",
+          foreground: "hsl(var(--closed-foreground))",
+        },
+        withdrawn: {
+          DEFAULT: "hsl(var(--withdrawn))",
+          foreground: "hsl(var(--withdrawn-foreground))",
+        },
         muted: {
           DEFAULT: "hsl(var(--muted))",
           foreground: "hsl(var(--muted-foreground))",